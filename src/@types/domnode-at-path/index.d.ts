@@ -1,3 +0,0 @@
-declare module 'domnode-at-path' {
-    export default function nodeAt(path: number[], node: Node): Node
-}
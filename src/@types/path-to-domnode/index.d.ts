@@ -1,3 +0,0 @@
-declare module 'path-to-domnode' {
-    export default function (node: Node, root: Node): number[]
-}
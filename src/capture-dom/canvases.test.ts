@@ -0,0 +1,61 @@
+import captureCanvases from './canvases'
+
+const exampleDataUrl = 'data:image/png;base64,iVBORw0KGgo='
+
+function makeExampleDoc() {
+    const html = `<html>
+        <body>
+            <canvas id="chart" class="big" style="border: 1px solid" width="200" height="100">
+                Fallback content
+            </canvas>
+        </body>
+    </html>`
+    const parser = new DOMParser()
+    const doc = parser.parseFromString(html, 'text/html')
+    return doc
+}
+
+describe('captureCanvases', () => {
+    test('should replace a canvas with an image of its content', () => {
+        const doc = makeExampleDoc()
+        const canvas = doc.querySelector('canvas')
+        canvas.toDataURL = jest.fn(() => exampleDataUrl)
+        const clonedDoc = doc.cloneNode(true)
+
+        captureCanvases(doc, clonedDoc)
+
+        expect(clonedDoc.querySelector('canvas')).toBeNull()
+        const img = clonedDoc.querySelector('img')
+        expect(img.getAttribute('src')).toEqual(exampleDataUrl)
+        expect(img.getAttribute('id')).toEqual('chart')
+        expect(img.getAttribute('class')).toEqual('big')
+        expect(img.getAttribute('style')).toEqual('border: 1px solid')
+        expect(img.getAttribute('width')).toEqual('200')
+        expect(img.getAttribute('height')).toEqual('100')
+    })
+
+    test('should leave a tainted canvas in place', () => {
+        const doc = makeExampleDoc()
+        const canvas = doc.querySelector('canvas')
+        canvas.toDataURL = jest.fn(() => {
+            throw new DOMException('Tainted canvases may not be exported.', 'SecurityError')
+        })
+        const clonedDoc = doc.cloneNode(true)
+
+        captureCanvases(doc, clonedDoc)
+
+        expect(clonedDoc.querySelector('canvas')).not.toBeNull()
+        expect(clonedDoc.querySelector('img')).toBeNull()
+    })
+
+    test('should leave an empty canvas in place', () => {
+        const doc = makeExampleDoc()
+        const canvas = doc.querySelector('canvas')
+        canvas.toDataURL = jest.fn(() => 'data:,')
+        const clonedDoc = doc.cloneNode(true)
+
+        captureCanvases(doc, clonedDoc)
+
+        expect(clonedDoc.querySelector('canvas')).not.toBeNull()
+    })
+})
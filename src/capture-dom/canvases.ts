@@ -0,0 +1,51 @@
+/**
+ * Replaces each <canvas> in the clone with an <img> showing the original canvas's current content.
+ * @param {ParentNode} originalRoot - the original document (or element); remains unmodified.
+ * @param {ParentNode} clonedRoot - the clone of originalRoot; its canvases will be replaced.
+ * @returns nothing; clonedRoot is mutated.
+ */
+export default function captureCanvases(originalRoot: ParentNode, clonedRoot: ParentNode) {
+    // As clonedRoot is an exact clone, both lists should contain corresponding elements in the
+    // same order.
+    const originalCanvases = Array.from(originalRoot.querySelectorAll('canvas'))
+    const clonedCanvases = Array.from(clonedRoot.querySelectorAll('canvas'))
+
+    originalCanvases.forEach((originalCanvas, index) => {
+        const clonedCanvas = clonedCanvases[index]
+
+        const dataUrl = canvasToDataUrl(originalCanvas)
+        if (dataUrl === undefined) {
+            // We cannot read the canvas; we leave the (empty) canvas in place.
+            return
+        }
+
+        const imageElement = clonedCanvas.ownerDocument.createElement('img')
+        // Copy all attributes (id, class, style, ...) to make the image take the canvas's place.
+        for (const { name, value } of Array.from(clonedCanvas.attributes)) {
+            imageElement.setAttribute(name, value)
+        }
+        // Set the dimensions explicitly, as a canvas has default dimensions if these are absent.
+        imageElement.setAttribute('width', `${originalCanvas.width}`)
+        imageElement.setAttribute('height', `${originalCanvas.height}`)
+        imageElement.setAttribute('src', dataUrl)
+
+        clonedCanvas.parentNode?.replaceChild(imageElement, clonedCanvas)
+    })
+}
+
+function canvasToDataUrl(canvas: HTMLCanvasElement): string | undefined {
+    let dataUrl: string | null | undefined
+    try {
+        dataUrl = canvas.toDataURL()
+    } catch (err) {
+        // A canvas is ‘tainted’ if it has been drawn on with cross-origin content; reading it then
+        // throws a SecurityError.
+        return undefined
+    }
+    // An empty canvas (with zero width or height) gives 'data:,'. Some environments lack an
+    // implementation and give nothing at all.
+    if (!dataUrl || dataUrl === 'data:,') {
+        return undefined
+    }
+    return dataUrl
+}
@@ -0,0 +1,75 @@
+import captureFormInputs from './form-inputs'
+
+function makeExampleDoc() {
+    const html = `<html>
+        <body>
+            <form>
+                <input type="text" name="name" value="default">
+                <input type="password" name="password">
+                <input type="checkbox" name="subscribe" checked>
+                <input type="radio" name="choice" value="a">
+                <input type="radio" name="choice" value="b" checked>
+                <textarea name="message">Default text</textarea>
+                <select name="colour">
+                    <option value="red" selected>Red</option>
+                    <option value="green">Green</option>
+                </select>
+            </form>
+        </body>
+    </html>`
+    const parser = new DOMParser()
+    const doc = parser.parseFromString(html, 'text/html')
+    return doc
+}
+
+function fillInForm(doc: Document) {
+    doc.querySelector('input[name=name]').value = 'Typed name'
+    doc.querySelector('input[name=password]').value = 'secret'
+    doc.querySelector('input[name=subscribe]').checked = false
+    doc.querySelector('input[value=a]').checked = true
+    doc.querySelector('textarea').value = 'Typed message'
+    doc.querySelector('select').value = 'green'
+}
+
+describe('captureFormInputs', () => {
+    test('should copy the current values into the clone', () => {
+        const doc = makeExampleDoc()
+        fillInForm(doc)
+        const clonedDoc = doc.cloneNode(true)
+
+        captureFormInputs(doc, clonedDoc, {})
+
+        // Check the state is reflected in the serialised DOM, by parsing it again.
+        const html = clonedDoc.documentElement.outerHTML
+        const resultDoc = new DOMParser().parseFromString(html, 'text/html')
+        expect(resultDoc.querySelector('input[name=name]').value).toEqual('Typed name')
+        expect(resultDoc.querySelector('input[name=subscribe]').checked).toBe(false)
+        expect(resultDoc.querySelector('input[value=a]').checked).toBe(true)
+        expect(resultDoc.querySelector('input[value=b]').checked).toBe(false)
+        expect(resultDoc.querySelector('textarea').value).toEqual('Typed message')
+        expect(resultDoc.querySelector('select').value).toEqual('green')
+    })
+
+    test('should not capture password fields by default', () => {
+        const doc = makeExampleDoc()
+        fillInForm(doc)
+        const clonedDoc = doc.cloneNode(true)
+
+        captureFormInputs(doc, clonedDoc, {})
+
+        expect(clonedDoc.querySelector('input[name=password]').hasAttribute('value')).toBe(false)
+    })
+
+    test('should leave out the inputs excluded by the given function', () => {
+        const doc = makeExampleDoc()
+        fillInForm(doc)
+        const clonedDoc = doc.cloneNode(true)
+
+        const excludeFormInput = element => element.localName === 'textarea'
+        captureFormInputs(doc, clonedDoc, { excludeFormInput })
+
+        expect(clonedDoc.querySelector('textarea').textContent).toEqual('Default text')
+        expect(clonedDoc.querySelector('input[name=password]').getAttribute('value'))
+            .toEqual('secret')
+    })
+})
@@ -0,0 +1,73 @@
+import { FormInputElement, GlobalConfig } from '../types'
+
+/**
+ * Copies the current state of form inputs (typed text, checked boxes, selected options) from the
+ * original DOM into the attributes and content of their clones, so the state survives serialisation.
+ * @param {ParentNode} originalRoot - the original document (or element); remains unmodified.
+ * @param {ParentNode} clonedRoot - the clone of originalRoot; its form inputs will be modified.
+ * @param {Object} [config]
+ * @param {(element: Element) => boolean} [config.excludeFormInput] - returns true for any input
+ * whose state should not be captured. Defaults to excluding password fields.
+ * @returns nothing; clonedRoot is mutated.
+ */
+export default function captureFormInputs(
+    originalRoot: ParentNode,
+    clonedRoot: ParentNode,
+    config: Pick<GlobalConfig, 'excludeFormInput'>,
+) {
+    const { excludeFormInput = defaultExcludeFormInput } = config
+
+    // As clonedRoot is an exact clone, both lists should contain corresponding elements in the
+    // same order.
+    const selector = 'input, textarea, select'
+    const originalElements = Array.from(originalRoot.querySelectorAll(selector)) as FormInputElement[]
+    const clonedElements = Array.from(clonedRoot.querySelectorAll(selector)) as FormInputElement[]
+
+    originalElements.forEach((originalElement, index) => {
+        const clonedElement = clonedElements[index]
+        if (excludeFormInput(originalElement)) return
+
+        // We compare tag names instead of using instanceof, as the elements may live in a frame
+        // and thus be instances of another window's interfaces.
+        if (originalElement.localName === 'input') {
+            captureInput(originalElement as HTMLInputElement, clonedElement as HTMLInputElement)
+        } else if (originalElement.localName === 'textarea') {
+            // A textarea's default value is its text content.
+            clonedElement.textContent = originalElement.value
+        } else if (originalElement.localName === 'select') {
+            captureSelect(originalElement as HTMLSelectElement, clonedElement as HTMLSelectElement)
+        }
+    })
+}
+
+function captureInput(originalElement: HTMLInputElement, clonedElement: HTMLInputElement) {
+    const type = originalElement.type
+    if (type === 'checkbox' || type === 'radio') {
+        setBooleanAttribute(clonedElement, 'checked', originalElement.checked)
+    } else if (type === 'file') {
+        // The value of a file input is a fake path, and cannot be set through an attribute anyway.
+    } else {
+        clonedElement.setAttribute('value', originalElement.value)
+    }
+}
+
+function captureSelect(originalElement: HTMLSelectElement, clonedElement: HTMLSelectElement) {
+    const originalOptions = Array.from(originalElement.options)
+    const clonedOptions = Array.from(clonedElement.options)
+    originalOptions.forEach((originalOption, index) => {
+        setBooleanAttribute(clonedOptions[index], 'selected', originalOption.selected)
+    })
+}
+
+function setBooleanAttribute(element: Element, attribute: string, value: boolean) {
+    if (value) {
+        element.setAttribute(attribute, '')
+    } else {
+        element.removeAttribute(attribute)
+    }
+}
+
+function defaultExcludeFormInput(element: FormInputElement): boolean {
+    // Do not store passwords in snapshots.
+    return element.localName === 'input' && (element as HTMLInputElement).type === 'password'
+}
@@ -0,0 +1,83 @@
+import captureImageCandidates, { parseSrcset } from './image-candidates'
+
+function makeExampleDoc() {
+    const html = `<html>
+        <head><base href="https://example.com/"></head>
+        <body>
+            <img src="small.jpg" srcset="medium.jpg 2x, large.jpg 3x" alt="density">
+            <picture>
+                <source type="image/webp" srcset="wide.webp 1600w, narrow.webp 800w"
+                    sizes="50vw">
+                <img src="fallback.jpg" srcset="fallback-large.jpg 1200w" sizes="100vw">
+            </picture>
+            <img src="plain.png">
+        </body>
+    </html>`
+    const parser = new DOMParser()
+    const doc = parser.parseFromString(html, 'text/html')
+    return doc
+}
+
+// The images in jsdom never load, so we tell which candidate the ‘browser’ has chosen.
+function setCurrentSrc(image: HTMLImageElement, currentSrc: string) {
+    Object.defineProperty(image, 'currentSrc', { value: currentSrc })
+}
+
+describe('captureImageCandidates', () => {
+    test('should keep only the chosen candidate', () => {
+        const doc = makeExampleDoc()
+        const [densityImage, pictureImage] = Array.from(doc.querySelectorAll('img'))
+        setCurrentSrc(densityImage, 'https://example.com/medium.jpg')
+        setCurrentSrc(pictureImage, 'https://example.com/narrow.webp')
+        const clonedDoc = doc.cloneNode(true) as Document
+
+        captureImageCandidates(doc, clonedDoc, { responsiveImages: 'chosen', glob: window })
+
+        const [clonedDensityImage, clonedPictureImage, plainImage] = Array.from(
+            clonedDoc.querySelectorAll('img'),
+        )
+        expect(clonedDensityImage.getAttribute('src')).toBe('medium.jpg')
+        expect(clonedDensityImage.getAttribute('srcset')).toBe('medium.jpg 2x')
+        expect(clonedPictureImage.getAttribute('src')).toBe('narrow.webp')
+        expect(clonedPictureImage.getAttribute('srcset')).toBe('narrow.webp 800w')
+        expect(clonedPictureImage.getAttribute('sizes')).toBe('50vw')
+        expect(clonedDoc.querySelector('source')).toBeNull()
+        expect(plainImage.getAttribute('src')).toBe('plain.png')
+    })
+
+    test('should keep the largest candidate if none has been chosen', () => {
+        const doc = makeExampleDoc()
+        const clonedDoc = doc.cloneNode(true) as Document
+
+        captureImageCandidates(doc, clonedDoc, { responsiveImages: 'chosen', glob: window })
+
+        const [densityImage, pictureImage] = Array.from(clonedDoc.querySelectorAll('img'))
+        expect(densityImage.getAttribute('srcset')).toBe('large.jpg 3x')
+        expect(pictureImage.getAttribute('src')).toBe('wide.webp')
+        expect(pictureImage.getAttribute('srcset')).toBe('wide.webp 1600w')
+    })
+
+    test('should leave all candidates by default', () => {
+        const doc = makeExampleDoc()
+        const clonedDoc = doc.cloneNode(true) as Document
+
+        captureImageCandidates(doc, clonedDoc, { glob: window })
+
+        expect(clonedDoc.documentElement.outerHTML).toBe(doc.documentElement.outerHTML)
+    })
+})
+
+describe('parseSrcset', () => {
+    test('should split candidates and their descriptors', () => {
+        expect(parseSrcset(' a.png 1x,b.png  2.5x , c.png')).toEqual([
+            { url: 'a.png', descriptor: '1x' },
+            { url: 'b.png', descriptor: '2.5x' },
+            { url: 'c.png' },
+        ])
+        expect(parseSrcset('data:image/png;base64,AAAA 100w, d.png,, e.png 200w')).toEqual([
+            { url: 'data:image/png;base64,AAAA', descriptor: '100w' },
+            { url: 'd.png' },
+            { url: 'e.png', descriptor: '200w' },
+        ])
+    })
+})
@@ -0,0 +1,156 @@
+import { GlobalConfig } from '../types'
+
+interface ImageCandidate {
+    // The URL as written in the attribute (it may be relative).
+    url: string;
+    // The width or density descriptor from a srcset (e.g. '800w' or '2x'), if any.
+    descriptor?: string;
+    // The element the candidate was listed on: the <img>, or a <source> in its <picture>.
+    element: Element;
+}
+
+/**
+ * Reduces the candidate sources of each responsive image in the clone (those given in its srcset,
+ * and by <source> elements in its <picture>) to a single one, so that only that one is fetched and
+ * inlined. Depending on config.responsiveImages, this is the candidate the browser has chosen to
+ * display (as given by the original image's currentSrc), or the largest candidate.
+ * @param {ParentNode} originalRoot - the original document (or shadow root); remains unmodified.
+ * @param {ParentNode} clonedRoot - the clone of originalRoot; its images will be modified.
+ * @param {Object} config
+ * @param {string} [config.responsiveImages='all'] - 'chosen', 'largest', or 'all' to do nothing.
+ * @returns nothing; clonedRoot is mutated.
+ */
+export default function captureImageCandidates(
+    originalRoot: ParentNode,
+    clonedRoot: ParentNode,
+    config: Pick<GlobalConfig, 'responsiveImages' | 'glob'>,
+) {
+    const { responsiveImages = 'all' } = config
+    if (responsiveImages === 'all') return
+
+    // As clonedRoot is an exact clone, both lists should contain corresponding elements in the
+    // same order.
+    const originalImages = Array.from(originalRoot.querySelectorAll('img'))
+    const clonedImages = Array.from(clonedRoot.querySelectorAll('img'))
+
+    originalImages.forEach((originalImage, index) => {
+        const clonedImage = clonedImages[index]
+        const candidates = imageCandidates(clonedImage)
+        // Nothing to choose from if the image only has a src (or nothing at all).
+        if (candidates.length <= 1) return
+
+        const candidate = (responsiveImages === 'chosen' && chosenCandidate(
+            originalImage,
+            candidates,
+            config,
+        )) || largestCandidate(candidates)
+        if (candidate) keepOnlyCandidate(clonedImage, candidate)
+    })
+}
+
+// Lists the candidates of an image, in the order a browser would consider them.
+function imageCandidates(image: HTMLImageElement): ImageCandidate[] {
+    const candidates: ImageCandidate[] = []
+    const sources = image.parentElement?.localName === 'picture'
+        ? Array.from(image.parentElement.children).filter(element => element.localName === 'source')
+        : []
+    for (const element of [...sources, image]) {
+        const srcset = element.getAttribute('srcset')
+        if (srcset !== null) {
+            candidates.push(...parseSrcset(srcset).map(candidate => ({ ...candidate, element })))
+        }
+    }
+    const src = image.getAttribute('src')
+    if (src !== null && src.trim() !== '') {
+        candidates.push({ url: src.trim(), element: image })
+    }
+    return candidates
+}
+
+// Finds the candidate that the browser currently displays. If it does not occur among the
+// candidates (e.g. because a script changed them), it is returned as a candidate by itself.
+function chosenCandidate(
+    originalImage: HTMLImageElement,
+    candidates: ImageCandidate[],
+    config: Pick<GlobalConfig, 'glob'>,
+): ImageCandidate | undefined {
+    const currentSrc = originalImage.currentSrc
+    // If the image has not been loaded (yet), the browser has not made its choice.
+    if (!currentSrc) return undefined
+    const absolute = (url: string) => {
+        try {
+            return new config.glob.URL(url, originalImage.baseURI).href
+        } catch (err) {
+            return undefined
+        }
+    }
+    return candidates.find(candidate => absolute(candidate.url) === currentSrc)
+        ?? { url: currentSrc, element: originalImage }
+}
+
+// Finds the candidate with the largest width descriptor, or lacking those, the largest density.
+function largestCandidate(candidates: ImageCandidate[]): ImageCandidate | undefined {
+    const size = ({ descriptor = '1x' }: ImageCandidate): [number, number] => {
+        const match = descriptor.match(/^(\d*\.?\d+(?:e[+-]?\d+)?)([wx])$/i)
+        if (!match) return [0, 0]
+        const value = parseFloat(match[1])
+        return match[2].toLowerCase() === 'w' ? [2, value] : [1, value]
+    }
+    let largest: ImageCandidate | undefined
+    for (const candidate of candidates) {
+        const [kind, value] = size(candidate)
+        if (largest === undefined) {
+            largest = candidate
+            continue
+        }
+        const [largestKind, largestValue] = size(largest)
+        if (kind > largestKind || (kind === largestKind && value > largestValue)) {
+            largest = candidate
+        }
+    }
+    return largest
+}
+
+// Rewrites the image to only have the given candidate, keeping its descriptor (and the sizes
+// attribute that goes with it), so the image is displayed at the same size as before.
+function keepOnlyCandidate(image: HTMLImageElement, candidate: ImageCandidate) {
+    const sizes = candidate.element.getAttribute('sizes')
+    if (image.parentElement?.localName === 'picture') {
+        for (const source of Array.from(image.parentElement.children)) {
+            if (source.localName === 'source') source.remove()
+        }
+    }
+    image.setAttribute('src', candidate.url)
+    if (candidate.descriptor !== undefined) {
+        image.setAttribute('srcset', `${candidate.url} ${candidate.descriptor}`)
+    } else {
+        image.removeAttribute('srcset')
+    }
+    if (candidate.descriptor !== undefined && sizes !== null) {
+        image.setAttribute('sizes', sizes)
+    } else {
+        image.removeAttribute('sizes')
+    }
+}
+
+// Parses a srcset attribute into its image candidates; simplified from the HTML spec's algorithm,
+// see https://html.spec.whatwg.org/multipage/images.html#parsing-a-srcset-attribute
+export function parseSrcset(srcset: string): Array<{ url: string, descriptor?: string }> {
+    const candidates: Array<{ url: string, descriptor?: string }> = []
+    const regex = /[\s,]*(\S+)/g
+    let match: RegExpExecArray | null
+    while ((match = regex.exec(srcset)) !== null) {
+        const url = match[1]
+        if (url.endsWith(',')) {
+            // A URL directly followed by a comma has no descriptors.
+            candidates.push({ url: url.replace(/,+$/, '') })
+            continue
+        }
+        // The descriptors run up to the next comma.
+        const end = srcset.indexOf(',', regex.lastIndex)
+        const descriptor = srcset.slice(regex.lastIndex, end === -1 ? undefined : end).trim()
+        candidates.push(descriptor ? { url, descriptor } : { url })
+        regex.lastIndex = end === -1 ? srcset.length : end + 1
+    }
+    return candidates
+}
@@ -0,0 +1,170 @@
+import { extractLinksFromDom } from '../extract-links/index'
+import { HtmlDocumentLink, HtmlLink } from '../extract-links/types'
+import { FrameElement, DomResource, GlobalConfig } from '../types'
+import { makeDomResource } from '../make-resource'
+import captureFormInputs from './form-inputs'
+import captureCanvases from './canvases'
+import captureShadowRoots from './shadow-roots'
+import captureStylesheets from './stylesheets'
+import captureImageCandidates from './image-candidates'
+
+/**
+ * Clones the DOM and DOMs inside its frames (recursively), wraps them in a resource object.
+ * @param {Document} doc - the DOM to be captured; remains unmodified.
+ * @param {Object} [config]
+ * @param {string} [config.docUrl] - URL to override doc.URL, to influence interpretation of
+ * relative URLs.
+ * @param {(frame: Element) => ?Document|Promise<?Document>} [config.getDocInFrame] - customises
+ * how to obtain an (i)frame's contentDocument. Defaults to simply trying to access
+ * frame.contentDocument. Should return (or resolve to) null if accessing the contentDocument fails,
+ * in which case the frame's document will be refetched while crawling the subresources.
+ * @param {AbortSignal} [config.signal] - signal to stop waiting for getDocInFrame; frames whose
+ * document is still pending by then are treated as if getDocInFrame returned null.
+ * @param {(element: Element) => ?ShadowRoot} [config.getShadowRoot] - customises how to obtain an
+ * element's shadow root. Defaults to reading element.shadowRoot, which gives only open ones; a
+ * privileged environment could also provide access to closed shadow roots.
+ * @param {(element: Element) => boolean} [config.excludeFormInput] - returns true for any form
+ * input whose current value should not be captured. Defaults to excluding password fields.
+ * @param {string} [config.responsiveImages='all'] - which of the candidate sources of responsive
+ * images (given by srcset attributes and <picture> elements) to keep: 'all', only the one 'chosen'
+ * by the browser, or the 'largest' one.
+ * @returns {Promise<Object>} resource - the resource object representing the DOM with its
+ * subresources.
+ */
+
+export default async function captureDom(
+    originalDoc: Document,
+    config: Pick<GlobalConfig,
+        | 'docUrl'
+        | 'getDocInFrame'
+        | 'signal'
+        | 'getShadowRoot'
+        | 'excludeFormInput'
+        | 'responsiveImages'
+        | 'glob'
+    >,
+): Promise<DomResource> {
+    // The first step is about grabbing everything that we need access to the original DOM for.
+    // Think documents in frames, current values of form inputs, canvas state..
+    // We make clones of everything we need, so in the next step we can do async stuff without
+    // worrying about the DOM changing.
+
+    // Clone the document
+    const clonedDoc = originalDoc.cloneNode(/* deep = */ true) as Document
+
+    // Capture the state of the document's content that cloning does not preserve. We note the
+    // frame elements we come across (also those inside shadow roots) for use below.
+    const originalFrameElements = new Map<Element, FrameElement>()
+    captureSubtree(originalDoc, clonedDoc, config, originalFrameElements)
+
+    // Extract all links. With links we mean both the usual 'hyperlinks' and links to subresources.
+    // We only really need the frame links in this step, but extract all as we will need them later.
+    const links = extractLinksFromDom(clonedDoc, { docUrl: config.docUrl })
+
+    // Capture the DOM inside every frame (recursively).
+    const frameLinks: HtmlDocumentLink[] = links.filter((
+        link => link.isSubresource && link.subresourceType === 'document'
+    ) as (link: HtmlLink) => link is HtmlDocumentLink) // (this type assertion should not be necessary; bug in TypeScript?)
+    await Promise.all(frameLinks.map(async link => {
+        // Find the corresponding frame element in original document.
+        const originalFrameElement = originalFrameElements.get(link.from.element)
+        if (!originalFrameElement) return
+
+        // Get the document inside the frame. If it is given synchronously, we capture it right away,
+        // to capture the state of all frames at (nearly) the same moment.
+        const { getDocInFrame = defaultGetDocInFrame } = config
+        const innerDocOrPromise = getDocInFrame(originalFrameElement)
+        const innerDoc = isPromise(innerDocOrPromise)
+            ? await unlessAborted(innerDocOrPromise, config.signal)
+            : innerDocOrPromise
+        if (innerDoc) {
+            // Recurse!
+            const innerDocResource = await captureDom(innerDoc, {
+                ...config,
+                // If our docUrl was overridden, override the frame's URL too. Might be wrong in
+                // case of redirects however. TODO Figure out desired behaviour.
+                docUrl: config.docUrl !== undefined ? link.absoluteTarget : undefined,
+            })
+            // Associate this subresource with the link object.
+            link.resource = innerDocResource
+        } else {
+            // We cannot access the frame content's current state (e.g. due to same origin policy).
+            // We will fall back to refetching the inner document while crawling the subresources.
+        }
+    }))
+
+    return makeDomResource({
+        url: config.docUrl || originalDoc.URL,
+        doc: clonedDoc,
+        captureMethod: 'live',
+        links,
+    }, config)
+}
+
+// Captures the state of a document or shadow root into its clone.
+function captureSubtree(
+    originalRoot: Document | ShadowRoot,
+    clonedRoot: Document | DocumentFragment,
+    config: Pick<GlobalConfig, 'getShadowRoot' | 'excludeFormInput' | 'responsiveImages' | 'glob'>,
+    originalFrameElements: Map<Element, FrameElement>,
+) {
+    // Note that most steps find corresponding elements in original and clone by their position, so
+    // steps that add or remove elements in the clone have to come after those.
+
+    // Capture the current values of form inputs, which are not reflected in the cloned DOM.
+    captureFormInputs(originalRoot, clonedRoot, config)
+
+    // Remember which original frame element corresponds to each cloned one.
+    const frameSelector = 'frame, iframe'
+    const originalFrames = Array.from(originalRoot.querySelectorAll<FrameElement>(frameSelector))
+    const clonedFrames = Array.from(clonedRoot.querySelectorAll(frameSelector))
+    originalFrames.forEach((originalFrame, index) => {
+        originalFrameElements.set(clonedFrames[index], originalFrame)
+    })
+
+    // Copy shadow roots into the clone (and recursively capture the state of their content).
+    captureShadowRoots(originalRoot, clonedRoot, config, (originalShadowRoot, clonedContent) => {
+        captureSubtree(originalShadowRoot, clonedContent, config, originalFrameElements)
+    })
+
+    // Serialise style rules that were added or modified by scripts.
+    captureStylesheets(originalRoot, clonedRoot, config)
+
+    // Reduce the candidate sources of responsive images (removing any <source> elements).
+    captureImageCandidates(originalRoot, clonedRoot, config)
+
+    // Replace canvasses with images of their current content.
+    captureCanvases(originalRoot, clonedRoot)
+}
+
+function isPromise<T>(value: T | Promise<T>): value is Promise<T> {
+    return typeof (value as Promise<T> | null)?.then === 'function'
+}
+
+// Resolves like the given promise, or to null if the signal is aborted first.
+function unlessAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T | null> {
+    if (!signal) return promise
+    if (signal.aborted) return Promise.resolve(null)
+    return new Promise((resolve, reject) => {
+        const onAbort = () => resolve(null)
+        signal.addEventListener('abort', onAbort)
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', onAbort)
+                resolve(value)
+            },
+            error => {
+                signal.removeEventListener('abort', onAbort)
+                reject(error)
+            },
+        )
+    })
+}
+
+function defaultGetDocInFrame(frameElement: FrameElement): Document | null {
+    try {
+        return frameElement.contentDocument
+    } catch (err) {
+        return null
+    }
+}
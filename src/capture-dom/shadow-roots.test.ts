@@ -0,0 +1,48 @@
+import captureShadowRoots from './shadow-roots'
+
+function makeExampleDoc() {
+    const html = `<html>
+        <body>
+            <div id="host"><span>Light content</span></div>
+        </body>
+    </html>`
+    const parser = new DOMParser()
+    const doc = parser.parseFromString(html, 'text/html')
+    return doc
+}
+
+describe('captureShadowRoots', () => {
+    test('should add a declarative shadow root for an open shadow root', () => {
+        const doc = makeExampleDoc()
+        const shadowRoot = doc.getElementById('host').attachShadow({ mode: 'open' })
+        shadowRoot.innerHTML = '<p>Shadow content</p><slot></slot>'
+        const clonedDoc = doc.cloneNode(true)
+        const captureSubtree = jest.fn()
+
+        captureShadowRoots(doc, clonedDoc, {}, captureSubtree)
+
+        const host = clonedDoc.getElementById('host')
+        const template = host.firstElementChild
+        expect(template.localName).toEqual('template')
+        expect(template.getAttribute('shadowrootmode')).toEqual('open')
+        expect(template.innerHTML).toEqual('<p>Shadow content</p><slot></slot>')
+        expect(host.querySelector('span')).not.toBeNull()
+        expect(captureSubtree).toHaveBeenCalledWith(shadowRoot, template.content)
+    })
+
+    test('should use the given getShadowRoot function', () => {
+        const doc = makeExampleDoc()
+        const shadowRoot = doc.getElementById('host').attachShadow({ mode: 'closed' })
+        shadowRoot.innerHTML = '<p>Shadow content</p>'
+        const clonedDoc = doc.cloneNode(true)
+        const getShadowRoot = element => (element.id === 'host' ? shadowRoot : null)
+
+        captureShadowRoots(doc, clonedDoc, {}, () => {})
+        expect(clonedDoc.querySelector('template')).toBeNull()
+
+        captureShadowRoots(doc, clonedDoc, { getShadowRoot }, () => {})
+        const template = clonedDoc.querySelector('template')
+        expect(template.getAttribute('shadowrootmode')).toEqual('closed')
+        expect(template.innerHTML).toEqual('<p>Shadow content</p>')
+    })
+})
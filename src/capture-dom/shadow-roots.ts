@@ -0,0 +1,50 @@
+import { GlobalConfig } from '../types'
+
+/**
+ * Copies the shadow roots of elements into the clone, in the form of declarative shadow roots:
+ * <template shadowrootmode="..."> elements inside their hosts.
+ * @param {ParentNode} originalRoot - the original document (or shadow root); remains unmodified.
+ * @param {ParentNode} clonedRoot - the clone of originalRoot; templates will be added to it.
+ * @param {Object} [config]
+ * @param {(element: Element) => ?ShadowRoot} [config.getShadowRoot] - customises how to obtain an
+ * element's shadow root. Defaults to reading element.shadowRoot, which gives only open ones.
+ * @param {(originalRoot: ShadowRoot, clonedRoot: DocumentFragment) => void} captureSubtree -
+ * invoked for each shadow root and the content of its template, to capture the state of its
+ * content (form inputs, nested shadow roots, ...) like that of the document itself.
+ * @returns nothing; clonedRoot is mutated.
+ */
+export default function captureShadowRoots(
+    originalRoot: ParentNode,
+    clonedRoot: ParentNode,
+    config: Pick<GlobalConfig, 'getShadowRoot'>,
+    captureSubtree: (originalRoot: ShadowRoot, clonedRoot: DocumentFragment) => void,
+) {
+    const { getShadowRoot = defaultGetShadowRoot } = config
+
+    // As clonedRoot is an exact clone, both lists should contain corresponding elements in the
+    // same order. (the templates we add below do not affect these lists)
+    const originalElements = Array.from(originalRoot.querySelectorAll('*'))
+    const clonedElements = Array.from(clonedRoot.querySelectorAll('*'))
+
+    originalElements.forEach((originalElement, index) => {
+        const shadowRoot = getShadowRoot(originalElement)
+        if (!shadowRoot) return
+        const clonedElement = clonedElements[index]
+
+        const template = clonedElement.ownerDocument.createElement('template')
+        template.setAttribute('shadowrootmode', shadowRoot.mode)
+        for (const childNode of Array.from(shadowRoot.childNodes)) {
+            template.content.appendChild(childNode.cloneNode(/* deep = */ true))
+        }
+
+        // Recurse, to capture the state inside the shadow root.
+        captureSubtree(shadowRoot, template.content)
+
+        // A declarative shadow root is conventionally the first child of its host.
+        clonedElement.insertBefore(template, clonedElement.firstChild)
+    })
+}
+
+function defaultGetShadowRoot(element: Element): ShadowRoot | null {
+    return element.shadowRoot
+}
@@ -0,0 +1,94 @@
+import captureStylesheets from './stylesheets'
+
+function makeExampleDoc() {
+    // We use the global document, as jsdom does not create stylesheets for other documents.
+    const doc = window.document
+    doc.documentElement.innerHTML = `
+        <head>
+            <style>
+                /* A comment. */
+                body { color: black; }
+            </style>
+        </head>
+        <body></body>
+    `
+    delete doc.adoptedStyleSheets
+    return doc
+}
+
+// Lacking support for constructable stylesheets, we fake them, parsing the text using a temporary
+// <style> element.
+class FakeConstructableStyleSheet {
+    cssRules = []
+    replaceSync(text: string) {
+        const styleElement = window.document.createElement('style')
+        styleElement.textContent = text
+        window.document.head.appendChild(styleElement)
+        this.cssRules = styleElement.sheet.cssRules
+        styleElement.remove()
+    }
+}
+
+describe('captureStylesheets', () => {
+    test('should serialise rules inserted through the CSSOM', () => {
+        const doc = makeExampleDoc()
+        doc.querySelector('style').sheet.insertRule('p { color: red; }', 1)
+        const clonedDoc = doc.cloneNode(true)
+
+        captureStylesheets(doc, clonedDoc, { glob: window })
+
+        const text = clonedDoc.querySelector('style').textContent
+        expect(text).toMatch(/body {\s*color: black;\s*}/)
+        expect(text).toMatch(/p {\s*color: red;\s*}/)
+    })
+
+    test('should keep the original text if the rules are unmodified', () => {
+        const doc = makeExampleDoc()
+        const originalText = doc.querySelector('style').textContent
+        const clonedDoc = doc.cloneNode(true)
+
+        captureStylesheets(doc, clonedDoc, { glob: window })
+
+        expect(clonedDoc.querySelector('style').textContent).toEqual(originalText)
+    })
+
+    test('should serialise rules modified through the CSSOM', () => {
+        const doc = makeExampleDoc()
+        doc.querySelector('style').sheet.cssRules[0].style.setProperty('color', 'red')
+        const clonedDoc = doc.cloneNode(true)
+        const glob = { CSSStyleSheet: FakeConstructableStyleSheet }
+
+        captureStylesheets(doc, clonedDoc, { glob })
+
+        const text = clonedDoc.querySelector('style').textContent
+        expect(text).toMatch(/body {\s*color: red;\s*}/)
+    })
+
+    test('should keep the original text if the parsed rules are unmodified', () => {
+        const doc = makeExampleDoc()
+        const originalText = doc.querySelector('style').textContent
+        const clonedDoc = doc.cloneNode(true)
+        const glob = { CSSStyleSheet: FakeConstructableStyleSheet }
+
+        captureStylesheets(doc, clonedDoc, { glob })
+
+        expect(clonedDoc.querySelector('style').textContent).toEqual(originalText)
+    })
+
+    test('should add adopted stylesheets', () => {
+        const doc = makeExampleDoc()
+        // Lacking support for constructable stylesheets, we fake one.
+        doc.adoptedStyleSheets = [{
+            cssRules: [{ cssText: 'p { color: green; }' }],
+            media: { mediaText: 'print' },
+        }]
+        const clonedDoc = doc.cloneNode(true)
+
+        captureStylesheets(doc, clonedDoc, { glob: window })
+
+        const styleElement = clonedDoc.body.lastElementChild
+        expect(styleElement.localName).toEqual('style')
+        expect(styleElement.textContent).toEqual('p { color: green; }')
+        expect(styleElement.getAttribute('media')).toEqual('print')
+    })
+})
@@ -0,0 +1,124 @@
+import { postcss } from '../package'
+import { GlobalConfig } from '../types/index'
+
+/**
+ * Makes the stylesheets in the clone reflect the style rules currently applied in the original.
+ *
+ * Scripts can modify a stylesheet through the CSSOM (e.g. using insertRule), in which case the
+ * text content of its <style> element is outdated; and stylesheets constructed by scripts can be
+ * ‘adopted’ by a document or shadow root without appearing in the DOM at all. In both cases, we
+ * serialise the rules of the live CSSStyleSheet into a <style> element in the clone.
+ * @param {Document|ShadowRoot} originalRoot - the original document or shadow root; remains
+ * unmodified.
+ * @param {ParentNode} clonedRoot - the clone of originalRoot (the content of a template, in case
+ * of a shadow root).
+ * @param {Object} config.glob - the global object, to construct stylesheets with.
+ * @returns nothing; clonedRoot is mutated.
+ */
+export default function captureStylesheets(
+    originalRoot: Document | ShadowRoot,
+    clonedRoot: Document | DocumentFragment,
+    config: Pick<GlobalConfig, 'glob'>,
+) {
+    // As clonedRoot is an exact clone, both lists should contain corresponding elements in the
+    // same order.
+    const originalStyleElements = Array.from(originalRoot.querySelectorAll('style'))
+    const clonedStyleElements = Array.from(clonedRoot.querySelectorAll('style'))
+
+    originalStyleElements.forEach((originalStyleElement, index) => {
+        const clonedStyleElement = clonedStyleElements[index]
+        const cssRules = getCssRules(originalStyleElement.sheet as CSSStyleSheet | null)
+        if (cssRules === undefined) return
+        const text = originalStyleElement.textContent || ''
+        if (isTextOutdated(text, cssRules, config)) {
+            clonedStyleElement.textContent = serialiseCssRules(cssRules)
+        }
+    })
+
+    // Add a <style> element for each adopted stylesheet. (the property is not yet known to our
+    // version of TypeScript, and not supported in all browsers)
+    const adoptedStyleSheets = (
+        originalRoot as (Document | ShadowRoot) & { adoptedStyleSheets?: CSSStyleSheet[] }
+    ).adoptedStyleSheets || []
+    const ownerDocument = 'documentElement' in clonedRoot
+        ? clonedRoot
+        : clonedRoot.ownerDocument as Document
+    // Adopted stylesheets come after the other stylesheets in the cascade, so we add them at the end.
+    const parent = 'documentElement' in clonedRoot
+        ? (clonedRoot.body || clonedRoot.documentElement)
+        : clonedRoot
+    for (const styleSheet of adoptedStyleSheets) {
+        const cssRules = getCssRules(styleSheet)
+        if (cssRules === undefined) continue
+        const styleElement = ownerDocument.createElement('style')
+        if (styleSheet.media.mediaText) {
+            styleElement.setAttribute('media', styleSheet.media.mediaText)
+        }
+        styleElement.textContent = serialiseCssRules(cssRules)
+        parent.appendChild(styleElement)
+    }
+}
+
+function getCssRules(styleSheet: CSSStyleSheet | null): CSSRuleList | undefined {
+    if (!styleSheet) return undefined
+    try {
+        return styleSheet.cssRules
+    } catch (err) {
+        // Not permitted (should not happen for inline stylesheets), or not loaded yet.
+        return undefined
+    }
+}
+
+// Tells whether the stylesheet was modified through the CSSOM. We would rather not always serialise
+// the rules from the CSSOM, as the browser drops anything it does not understand, like another
+// browser's vendor-prefixed properties. So we parse the text anew, which drops those too, and
+// compare the resulting rules to the live ones.
+function isTextOutdated(
+    text: string,
+    cssRules: CSSRuleList,
+    config: Pick<GlobalConfig, 'glob'>,
+): boolean {
+    const parsedRules = parseCssRules(text, config)
+    if (parsedRules !== undefined) {
+        return serialiseCssRules(parsedRules) !== serialiseCssRules(cssRules)
+    }
+
+    // Lacking constructable stylesheets, we can only guess by comparing the number of rules. Note
+    // that this misses modifications within a rule (e.g. rule.style.color = 'red').
+    let parsedCss: postcss.Root
+    try {
+        parsedCss = postcss.parse(text)
+    } catch (err) {
+        // Corrupt CSS; the CSSOM is our best bet.
+        return true
+    }
+    const ruleCount = (parsedCss.nodes || [])
+        .filter(node => node.type !== 'comment')
+        .filter(node => !(node.type === 'atrule' && node.name.toLowerCase() === 'charset'))
+        .length
+    return ruleCount !== cssRules.length
+}
+
+// Parses the text into the rules of a new, constructed stylesheet. Returns undefined if the
+// browser does not support constructing stylesheets (the method is not yet known to our version
+// of TypeScript either).
+function parseCssRules(
+    text: string,
+    config: Pick<GlobalConfig, 'glob'>,
+): CSSRuleList | undefined {
+    try {
+        const styleSheet = new config.glob.CSSStyleSheet() as CSSStyleSheet & {
+            replaceSync?: (text: string) => void,
+        }
+        if (!styleSheet.replaceSync) return undefined
+        // (note that this ignores any @import rules, so then the text counts as outdated)
+        styleSheet.replaceSync(text)
+        return styleSheet.cssRules
+    } catch (err) {
+        return undefined
+    }
+}
+
+function serialiseCssRules(cssRules: CSSRuleList): string {
+    return Array.from(cssRules).map(rule => rule.cssText).join('\n')
+}
@@ -0,0 +1,55 @@
+import parseBlocklist from './blocklist'
+
+describe('parseBlocklist', () => {
+    const config = { glob: window }
+
+    test('should block hostnames and their subdomains', () => {
+        const blocklist = 'ads.example.com\n# A comment\n\nTracker.example.net'
+        const isBlocked = parseBlocklist(blocklist, config)
+
+        expect(isBlocked('https://ads.example.com/banner.png')).toBe(true)
+        expect(isBlocked('http://cdn.ads.example.com/banner.png')).toBe(true)
+        expect(isBlocked('https://tracker.example.net:8080/')).toBe(true)
+        expect(isBlocked('https://example.com/ads.example.com')).toBe(false)
+        expect(isBlocked('https://notads.example.com/')).toBe(false)
+        expect(isBlocked('data:image/png;base64,AAAA')).toBe(false)
+    })
+
+    test('should read lines from a hosts file', () => {
+        const isBlocked = parseBlocklist([
+            '0.0.0.0 ads.example.com # ad server',
+            '127.0.0.1\ttracker.example.net  pixel.example.net',
+            ':: 6.example.org',
+        ], config)
+
+        expect(isBlocked('https://ads.example.com/')).toBe(true)
+        expect(isBlocked('https://tracker.example.net/')).toBe(true)
+        expect(isBlocked('https://pixel.example.net/')).toBe(true)
+        expect(isBlocked('https://6.example.org/')).toBe(true)
+        expect(isBlocked('https://0.0.0.0/')).toBe(false)
+        expect(isBlocked('https://example.com/')).toBe(false)
+    })
+
+    test('should match patterns against the whole URL', () => {
+        const isBlocked = parseBlocklist('*/pixel.gif*\nhttps://example.com/track?id=*', config)
+
+        expect(isBlocked('https://example.com/pixel.gif')).toBe(true)
+        expect(isBlocked('https://example.com/img/pixel.gif?x=1')).toBe(true)
+        expect(isBlocked('https://example.com/track?id=42')).toBe(true)
+        expect(isBlocked('https://example.com/pixel.png')).toBe(false)
+        expect(isBlocked('https://example.com/trackxid=42')).toBe(false)
+        expect(isBlocked('https://example.net/https://example.com/track?id=1')).toBe(false)
+    })
+
+    test('should match patterns without a scheme from the start of the hostname', () => {
+        const isBlocked = parseBlocklist('doubleclick.net/*\nads.example.com/banner*', config)
+
+        expect(isBlocked('https://doubleclick.net/p.gif')).toBe(true)
+        expect(isBlocked('http://stats.g.doubleclick.net/collect?v=1')).toBe(true)
+        expect(isBlocked('https://ads.example.com/banner-1.png')).toBe(true)
+        expect(isBlocked('https://ads.example.com/logo.png')).toBe(false)
+        expect(isBlocked('https://notdoubleclick.net/p.gif')).toBe(false)
+        expect(isBlocked('https://example.com/doubleclick.net/p.gif')).toBe(false)
+        expect(isBlocked('https://example.com/?ref=doubleclick.net/p.gif')).toBe(false)
+    })
+})
@@ -0,0 +1,64 @@
+import { UrlString, GlobalConfig } from '../types'
+
+/**
+ * Parse a blocklist into a function that tells whether a URL is blocked by it.
+ *
+ * The blocklist has one entry per line (or per array item); empty lines, and comments starting
+ * with '#' or '!', are ignored. An entry is either:
+ * - a hostname, e.g. `ads.example.com`, blocking any URL on that host or its subdomains;
+ * - a line from a hosts file, e.g. `0.0.0.0 ads.example.com`, blocking the listed hostname(s) in
+ *   the same way; or
+ * - a pattern, recognised by containing a '/' or '*', that is matched against the whole URL, with
+ *   '*' matching any sequence of characters; e.g. `https://*.example.com/pixel.gif*`. A pattern
+ *   without a scheme (e.g. `ads.example.com/banner*`) is matched from the start of the hostname,
+ *   also blocking its subdomains, unless it starts with a '*'.
+ * @param {string|string[]} blocklist - the blocklist.
+ * @returns {Function} a function that, given an absolute URL, returns true if it is blocked.
+ */
+export default function parseBlocklist(
+    blocklist: string | string[],
+    config: Pick<GlobalConfig, 'glob'>,
+): (url: UrlString) => boolean {
+    const lines = typeof blocklist === 'string' ? blocklist.split(/\r?\n/) : blocklist
+    const hostnames = new Set<string>()
+    const patterns: RegExp[] = []
+    for (const line of lines) {
+        const entry = line.replace(/(^|\s)[#!].*$/, '').trim().toLowerCase()
+        if (entry === '') continue
+        if (entry.includes('/') || entry.includes('*')) {
+            patterns.push(patternToRegExp(entry))
+            continue
+        }
+        const words = entry.split(/\s+/)
+        // In a hosts file, the hostnames follow the address they are mapped to.
+        const isHostsFileLine = words.length > 1 && /^[\d.:]+$/.test(words[0])
+        for (const hostname of isHostsFileLine ? words.slice(1) : words) {
+            hostnames.add(hostname)
+        }
+    }
+
+    return (url: UrlString) => {
+        let hostname: string
+        try {
+            hostname = new config.glob.URL(url).hostname.toLowerCase()
+        } catch (error) {
+            return false
+        }
+        // Check the hostname itself, and each of its parent domains.
+        for (let domain = hostname; domain !== ''; domain = domain.replace(/^[^.]*\.?/, '')) {
+            if (hostnames.has(domain)) return true
+        }
+        const lowerCaseUrl = url.toLowerCase()
+        return patterns.some(pattern => pattern.test(lowerCaseUrl))
+    }
+}
+
+function patternToRegExp(pattern: string): RegExp {
+    const escaped = pattern.split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')
+    // Let a pattern without a scheme start at the hostname (or that of a subdomain).
+    const isSchemeless = !pattern.startsWith('*') && !pattern.includes('://')
+    const prefix = isSchemeless ? '[a-z][a-z0-9+.-]*://([^/?#]*\\.)?' : ''
+    return new RegExp(`^${prefix}${escaped}$`)
+}
@@ -0,0 +1,121 @@
+import { TextDecoder } from 'util'
+import {
+    decodeStylesheet,
+    decodeHtml,
+    decodeXml,
+    charsetFromMimeType,
+    cssCharsetRuleEncoding,
+    htmlMetaCharsetEncoding,
+} from './decode-text'
+
+const asciiBytes = (s: string) => Uint8Array.from(s, c => c.charCodeAt(0))
+
+// ‘日本’ in Shift_JIS.
+const shiftJisBytes = [0x93, 0xFA, 0x96, 0x7B]
+// ‘café’ in windows-1252.
+const windows1252Bytes = [...asciiBytes('caf'), 0xE9]
+
+// The jsdom environment lacks a TextDecoder, so we provide Node's implementation.
+const glob = { FileReader: window.FileReader, TextDecoder } as unknown as typeof window
+
+function makeBlob(parts: Array<string | number[]>, type = '') {
+    return new Blob(parts.map(part => typeof part === 'string' ? part : Uint8Array.from(part)), {
+        type,
+    })
+}
+
+describe('decodeStylesheet', () => {
+    test('should use the charset from the MIME type', async () => {
+        const blob = makeBlob(['p::before { content: "', shiftJisBytes, '" }'],
+            'text/css; charset=Shift_JIS')
+        const { text, encoding } = await decodeStylesheet(blob, undefined, { glob })
+        expect(text).toBe('p::before { content: "日本" }')
+        expect(encoding).toBe('shift_jis')
+    })
+
+    test('should use the @charset rule', async () => {
+        const blob = makeBlob(['@charset "windows-1252";\np::before { content: "',
+            windows1252Bytes, '" }'], 'text/css')
+        const { text } = await decodeStylesheet(blob, undefined, { glob })
+        expect(text).toContain('café')
+    })
+
+    test('should prefer the byte order mark', async () => {
+        const blob = makeBlob([[0xEF, 0xBB, 0xBF], '@charset "shift_jis"; /* café */'],
+            'text/css; charset=shift_jis')
+        const { text, encoding } = await decodeStylesheet(blob, undefined, { glob })
+        expect(text).toBe('@charset "shift_jis"; /* café */')
+        expect(encoding).toBe('utf-8')
+    })
+
+    test('should fall back to the referrer’s encoding, then to UTF-8', async () => {
+        const blob = makeBlob(['/* ', windows1252Bytes, ' */'], 'text/css')
+        expect((await decodeStylesheet(blob, 'windows-1252', { glob })).text).toBe('/* café */')
+        expect((await decodeStylesheet(blob, undefined, { glob })).encoding).toBe('utf-8')
+    })
+
+    test('should ignore unknown encoding labels', async () => {
+        const blob = makeBlob(['/* café */'], 'text/css; charset=bogus')
+        expect((await decodeStylesheet(blob, undefined, { glob })).text).toBe('/* café */')
+    })
+
+    test('should decode using a FileReader if TextDecoder is absent', async () => {
+        const blob = makeBlob(['/* ', windows1252Bytes, ' */'], 'text/css; charset=windows-1252')
+        const { text } = await decodeStylesheet(blob, undefined, { glob: window })
+        expect(text).toBe('/* café */')
+    })
+})
+
+describe('decodeHtml', () => {
+    test('should use the <meta> charset declaration', async () => {
+        const blob = makeBlob(['<html><head><meta charset="shift_jis"></head><body>',
+            shiftJisBytes, '</body></html>'], 'text/html')
+        const { text, encoding } = await decodeHtml(blob, undefined, { glob })
+        expect(text).toContain('<body>日本</body>')
+        expect(encoding).toBe('shift_jis')
+    })
+
+    test('should prefer the charset from the MIME type', async () => {
+        const blob = makeBlob(['<meta charset="shift_jis">', windows1252Bytes],
+            'text/html;charset=windows-1252')
+        expect((await decodeHtml(blob, undefined, { glob })).text).toContain('café')
+    })
+})
+
+describe('decodeXml', () => {
+    test('should use the encoding from the XML declaration', async () => {
+        const blob = makeBlob(['<?xml version="1.0" encoding="windows-1252"?><svg><text>',
+            windows1252Bytes, '</text></svg>'], 'image/svg+xml')
+        const { text, encoding } = await decodeXml(blob, { glob })
+        expect(text).toContain('<text>café</text>')
+        expect(encoding).toBe('windows-1252')
+    })
+})
+
+describe('charsetFromMimeType', () => {
+    test('should read the charset parameter', () => {
+        expect(charsetFromMimeType('text/css; charset=utf-8')).toBe('utf-8')
+        expect(charsetFromMimeType('text/html;Charset="Shift_JIS"')).toBe('Shift_JIS')
+        expect(charsetFromMimeType('text/css')).toBeUndefined()
+    })
+})
+
+describe('cssCharsetRuleEncoding', () => {
+    test('should only accept the rule in its exact form at the start', () => {
+        expect(cssCharsetRuleEncoding(asciiBytes('@charset "iso-8859-15";'))).toBe('iso-8859-15')
+        expect(cssCharsetRuleEncoding(asciiBytes(' @charset "iso-8859-15";'))).toBeUndefined()
+        expect(cssCharsetRuleEncoding(asciiBytes('@charset \'iso-8859-15\';'))).toBeUndefined()
+        expect(cssCharsetRuleEncoding(asciiBytes('@charset "utf-16le";'))).toBe('utf-8')
+    })
+})
+
+describe('htmlMetaCharsetEncoding', () => {
+    test('should find both forms of declaration', () => {
+        expect(htmlMetaCharsetEncoding(asciiBytes('<meta charset=euc-jp>'))).toBe('euc-jp')
+        expect(htmlMetaCharsetEncoding(asciiBytes(
+            '<meta http-equiv="Content-Type" content="text/html; charset=koi8-r">'
+        ))).toBe('koi8-r')
+        expect(htmlMetaCharsetEncoding(asciiBytes('<!-- <meta charset=koi8-r> -->'))).toBeUndefined()
+        expect(htmlMetaCharsetEncoding(asciiBytes('<p>charset=koi8-r</p>'))).toBeUndefined()
+    })
+})
@@ -0,0 +1,191 @@
+import { GlobalConfig } from '../types'
+
+type DecodeTextConfig = Pick<GlobalConfig, 'glob'>
+
+export interface DecodedText {
+    text: string;
+
+    // The name of the encoding the text was decoded from.
+    encoding: string;
+}
+
+/**
+ * Decode a stylesheet, determining its character encoding like a browser would (see
+ * https://drafts.csswg.org/css-syntax/#input-byte-stream): from its byte order mark, the charset in
+ * its MIME type (i.e. from the HTTP Content-Type header), its @charset rule, or the encoding of the
+ * resource that linked to it; falling back to UTF-8.
+ * @param {Blob} blob - the stylesheet's content; its type may include a charset parameter.
+ * @param {string} [referrerEncoding] - the encoding of the document or stylesheet linking to it.
+ * @returns {Promise<Object>} the decoded text, and the name of its encoding.
+ */
+export async function decodeStylesheet(
+    blob: Blob,
+    referrerEncoding: string | undefined,
+    config: DecodeTextConfig,
+): Promise<DecodedText> {
+    const bytes = await blobToBytes(blob, config)
+    const encoding = firstSupportedEncoding([
+        bomEncoding(bytes),
+        charsetFromMimeType(blob.type),
+        cssCharsetRuleEncoding(bytes),
+        referrerEncoding,
+    ], config)
+    return decode(blob, bytes, encoding, config)
+}
+
+/**
+ * Decode an HTML document, determining its character encoding like a browser would (see
+ * https://html.spec.whatwg.org/multipage/parsing.html#determining-the-character-encoding): from
+ * its byte order mark, the charset in its MIME type (i.e. from the HTTP Content-Type header), its
+ * <meta charset> (or <meta http-equiv="Content-Type">) element, or the encoding of the document
+ * containing it; falling back to UTF-8.
+ * @param {Blob} blob - the document's content; its type may include a charset parameter.
+ * @param {string} [referrerEncoding] - the encoding of the document containing it (e.g. in a
+ * frame); as browsers only let a frame inherit it from a parent of the same origin, pass it only
+ * then.
+ * @returns {Promise<Object>} the decoded text, and the name of its encoding.
+ */
+export async function decodeHtml(
+    blob: Blob,
+    referrerEncoding: string | undefined,
+    config: DecodeTextConfig,
+): Promise<DecodedText> {
+    const bytes = await blobToBytes(blob, config)
+    const encoding = firstSupportedEncoding([
+        bomEncoding(bytes),
+        charsetFromMimeType(blob.type),
+        htmlMetaCharsetEncoding(bytes),
+        referrerEncoding,
+    ], config)
+    return decode(blob, bytes, encoding, config)
+}
+
+/**
+ * Decode an XML document (such as an SVG image), determining its character encoding from its byte
+ * order mark, the charset in its MIME type, or the encoding declaration in its XML declaration;
+ * falling back to UTF-8 (see https://www.w3.org/TR/xml/#sec-guessing).
+ * @param {Blob} blob - the document's content; its type may include a charset parameter.
+ * @returns {Promise<Object>} the decoded text, and the name of its encoding.
+ */
+export async function decodeXml(
+    blob: Blob,
+    config: DecodeTextConfig,
+): Promise<DecodedText> {
+    const bytes = await blobToBytes(blob, config)
+    const encoding = firstSupportedEncoding([
+        bomEncoding(bytes),
+        charsetFromMimeType(blob.type),
+        xmlDeclarationEncoding(bytes),
+    ], config)
+    return decode(blob, bytes, encoding, config)
+}
+
+/**
+ * Decode a web app manifest, which is always UTF-8, whatever its MIME type says (see
+ * https://www.w3.org/TR/appmanifest/#processing).
+ * @param {Blob} blob - the manifest's content.
+ * @returns {Promise<Object>} the decoded text, and the name of its encoding.
+ */
+export async function decodeManifest(
+    blob: Blob,
+    config: DecodeTextConfig,
+): Promise<DecodedText> {
+    const bytes = await blobToBytes(blob, config)
+    return decode(blob, bytes, 'utf-8', config)
+}
+
+async function decode(
+    blob: Blob,
+    bytes: Uint8Array,
+    encoding: string,
+    config: DecodeTextConfig,
+): Promise<DecodedText> {
+    if (config.glob.TextDecoder) {
+        const decoder = new config.glob.TextDecoder(encoding)
+        return { text: decoder.decode(bytes), encoding: decoder.encoding }
+    }
+    // Lacking a TextDecoder, we let a FileReader do the decoding.
+    const text = await new Promise<string>((resolve, reject) => {
+        const reader = new config.glob.FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsText(blob, encoding)
+    })
+    return { text, encoding }
+}
+
+// Returns the first of the given encoding labels that is known to the platform, or 'utf-8'.
+function firstSupportedEncoding(labels: Array<string | undefined>, config: DecodeTextConfig) {
+    for (const label of labels) {
+        if (label === undefined) continue
+        if (!config.glob.TextDecoder) return label // (we cannot check, so just try it)
+        try {
+            return new config.glob.TextDecoder(label).encoding
+        } catch (err) {
+            // Not a valid encoding label; continue with the next one.
+        }
+    }
+    return 'utf-8'
+}
+
+export async function blobToBytes(blob: Blob, config: DecodeTextConfig): Promise<Uint8Array> {
+    const buffer = await new Promise<ArrayBuffer>((resolve, reject) => {
+        const reader = new config.glob.FileReader()
+        reader.onload = () => resolve(reader.result as ArrayBuffer)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsArrayBuffer(blob)
+    })
+    return new Uint8Array(buffer)
+}
+
+// Read the encoding from a byte order mark, if present.
+export function bomEncoding(bytes: Uint8Array): string | undefined {
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8'
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be'
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le'
+    return undefined
+}
+
+// Read the charset parameter of a MIME type, e.g. 'text/css; charset="shift_jis"' → 'shift_jis'.
+export function charsetFromMimeType(mimeType: string): string | undefined {
+    const match = mimeType.match(/;\s*charset\s*=\s*(?:"([^"]*)"|([^\s;]+))/i)
+    return match ? (match[1] ?? match[2]) : undefined
+}
+
+// Read the encoding from a stylesheet's @charset rule. This must be at the very start of the file,
+// and written exactly like `@charset "…";`, else it is ignored.
+export function cssCharsetRuleEncoding(bytes: Uint8Array): string | undefined {
+    const head = bytesToAscii(bytes.subarray(0, 1024))
+    const match = head.match(/^@charset "([^"]*)";/)
+    if (!match) return undefined
+    const label = match[1]
+    // A stylesheet that is actually UTF-16 could not contain this rule in ASCII.
+    return /^utf-16(be|le)?$/i.test(label) ? 'utf-8' : label
+}
+
+// Look for a <meta> element declaring the encoding in the first 1024 bytes of an HTML document.
+// This is a simplification of the ‘prescan’ algorithm of the HTML spec.
+export function htmlMetaCharsetEncoding(bytes: Uint8Array): string | undefined {
+    const head = bytesToAscii(bytes.subarray(0, 1024))
+        .replace(/<!--[^]*?-->/g, '') // Ignore comments.
+    // Matches both <meta charset="…"> and <meta http-equiv="Content-Type" content="…; charset=…">
+    const match = head.match(/<meta\s[^>]*?charset\s*=\s*["']?\s*([^\s"'/>;]+)/i)
+    if (!match) return undefined
+    const label = match[1]
+    if (/^utf-16(be|le)?$/i.test(label)) return 'utf-8'
+    if (/^x-user-defined$/i.test(label)) return 'windows-1252'
+    return label
+}
+
+// Read the encoding from an XML declaration, e.g. <?xml version="1.0" encoding="iso-8859-1"?>.
+export function xmlDeclarationEncoding(bytes: Uint8Array): string | undefined {
+    const head = bytesToAscii(bytes.subarray(0, 1024))
+    const match = head.match(/^<\?xml\s[^>]*?encoding\s*=\s*["']([^"']+)["'][^>]*\?>/)
+    return match ? match[1] : undefined
+}
+
+// Interpret each byte as a character; good enough for finding ASCII text in ASCII-compatible
+// encodings.
+function bytesToAscii(bytes: Uint8Array): string {
+    return String.fromCharCode(...Array.from(bytes))
+}
@@ -0,0 +1,14 @@
+// Thrown when a subresource is deliberately not crawled (or dropped), e.g. because it exceeds a
+// maximum size, or to avoid endless recursion. Retrying would not help.
+export class SubresourceSkippedError extends Error {}
+
+// Thrown when a subresource is not crawled because its URL is blocked (see blockSubresource and
+// blocklist in GlobalConfig).
+export class SubresourceBlockedError extends SubresourceSkippedError {}
+
+// Thrown when a subresource could not be fetched in time, as an attempt exceeded its timeout.
+export class SubresourceTimeoutError extends Error {}
+
+// Thrown when a subresource is not crawled because the crawl was aborted before it was done: by the
+// caller's signal, or by freezeDry when its own timeout expires.
+export class SubresourceAbortedError extends Error {}
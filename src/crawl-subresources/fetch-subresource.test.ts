@@ -0,0 +1,532 @@
+import fetchSubresource, { getFetchPolicy, defaultFetchPolicy } from './fetch-subresource'
+import { Resource } from '../types'
+import { SubresourceLink } from '../extract-links/types'
+import { SubresourceType } from '../extract-links/url-attributes/types'
+
+function makeLink(subresourceType: SubresourceType = 'image'): SubresourceLink {
+    return {
+        target: 'pic.png',
+        absoluteTarget: 'https://example.com/pic.png',
+        isSubresource: true,
+        subresourceType,
+        from: {},
+    }
+}
+
+const parentResource: Resource = {
+    url: 'https://example.com/page.html',
+    blob: new Blob(),
+    links: [],
+}
+
+// A minimal stand-in for a Response.
+function makeResponse(status: number, blob = new Blob(['content'])) {
+    return {
+        status,
+        url: 'https://example.com/pic.png',
+        blob: async () => blob,
+    }
+}
+
+function makeConfig(fetchResource, fetchPolicies = {}) {
+    return { fetchResource, fetchPolicies, glob: window }
+}
+
+describe('fetchSubresource', () => {
+    test('should retry after a transient response status', async () => {
+        const fetchResource = jest.fn()
+            .mockResolvedValueOnce(makeResponse(503))
+            .mockResolvedValueOnce(makeResponse(200))
+        const config = makeConfig(fetchResource, { image: { retries: 2, retryDelay: 0 } })
+
+        const result = await fetchSubresource(makeLink(), parentResource, config)
+        expect(fetchResource).toHaveBeenCalledTimes(2)
+        expect(result.url).toBe('https://example.com/pic.png')
+    })
+
+    test('should not retry after other response statuses', async () => {
+        const fetchResource = jest.fn().mockResolvedValue(makeResponse(404))
+        const config = makeConfig(fetchResource, { image: { retries: 2, retryDelay: 0 } })
+
+        await expect(fetchSubresource(makeLink(), parentResource, config))
+            .rejects.toThrow('failed with status 404')
+        expect(fetchResource).toHaveBeenCalledTimes(1)
+    })
+
+    test('should fail with the last response when retries are exhausted', async () => {
+        const fetchResource = jest.fn().mockResolvedValue(makeResponse(503))
+        const config = makeConfig(fetchResource, { image: { retries: 2, retryDelay: 0 } })
+
+        await expect(fetchSubresource(makeLink(), parentResource, config))
+            .rejects.toThrow('failed with status 503')
+        expect(fetchResource).toHaveBeenCalledTimes(3)
+    })
+
+    test('should fail if the content does not match the subresource type', async () => {
+        const errorPage = new Blob(['<!DOCTYPE html><title>Not found</title>'], { type: '' })
+        const loginPage = new Blob(['<p>Please log in</p>'], { type: 'text/html' })
+        const fetchResource = jest.fn()
+            .mockResolvedValueOnce(makeResponse(200, errorPage))
+            .mockResolvedValueOnce(makeResponse(200, loginPage))
+        const config = makeConfig(fetchResource)
+
+        await expect(fetchSubresource(makeLink('image'), parentResource, config))
+            .rejects.toThrow('but it is text/html')
+        await expect(fetchSubresource(makeLink('style'), parentResource, config))
+            .rejects.toThrow('but it is text/html')
+    })
+
+    test('should trust the magic bytes of images and fonts over their declared type', async () => {
+        const pngBytes = Uint8Array.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])
+        const png = new Blob([pngBytes], { type: 'text/html' })
+        const woff2 = new Blob(['wOF2...'], { type: 'image/png' })
+        const fetchResource = jest.fn()
+            .mockResolvedValueOnce(makeResponse(200, png))
+            .mockResolvedValueOnce(makeResponse(200, woff2))
+        const config = makeConfig(fetchResource)
+
+        const image = await fetchSubresource(makeLink('image'), parentResource, config)
+        expect(image.blob).toBe(png)
+        await expect(fetchSubresource(makeLink('image'), parentResource, config))
+            .rejects.toThrow('but it is font/woff2')
+    })
+
+    test('should not let markup that looks like HTML override an acceptable type', async () => {
+        // An SVG image whose root element comes after a long licence comment.
+        const svg = new Blob(
+            [`<!-- ${'Licence text. '.repeat(50)} -->\n<svg xmlns="http://www.w3.org/2000/svg"/>`],
+            { type: 'image/svg+xml' },
+        )
+        const css = new Blob(['<!-- body { color: black; } -->'], { type: 'text/css' })
+        const fetchResource = jest.fn()
+            .mockResolvedValueOnce(makeResponse(200, svg))
+            .mockResolvedValueOnce(makeResponse(200, css))
+        const config = makeConfig(fetchResource)
+
+        const image = await fetchSubresource(makeLink('image'), parentResource, config)
+        expect(image.blob).toBe(svg)
+        const stylesheet = await fetchSubresource(makeLink('style'), parentResource, config)
+        expect(stylesheet.blob).toBe(css)
+    })
+
+    test('should accept AVIF images, also those with a generic HEIF brand', async () => {
+        // (an 'ftyp' box with major brand 'mif1', and the given compatible brands)
+        const ftyp = (brand: string) => Uint8Array.from(
+            `\x00\x00\x00\x18ftypmif1\x00\x00\x00\x00mif1${brand}`,
+            character => character.charCodeAt(0),
+        )
+        const avif = new Blob([ftyp('avif')], { type: 'image/avif' })
+        // A brand we do not know, but declared to be an image.
+        const otherImage = new Blob([ftyp('newi')], { type: 'image/newformat' })
+        const fetchResource = jest.fn()
+            .mockResolvedValueOnce(makeResponse(200, avif))
+            .mockResolvedValueOnce(makeResponse(200, otherImage))
+        const config = makeConfig(fetchResource)
+
+        const image1 = await fetchSubresource(makeLink('image'), parentResource, config)
+        expect(image1.blob.type).toBe('image/avif')
+        const image2 = await fetchSubresource(makeLink('image'), parentResource, config)
+        expect(image2.blob.type).toBe('image/newformat')
+    })
+
+    test('should give an untyped resource its sniffed type', async () => {
+        const fetchResource = jest.fn().mockResolvedValue({
+            url: 'https://example.com/font',
+            blob: new Blob(['wOFF\x00\x01\x00\x00']),
+        })
+        const config = makeConfig(fetchResource)
+
+        const result = await fetchSubresource(makeLink('font'), parentResource, config)
+        expect(result.blob.type).toBe('font/woff')
+        expect(result.blob.size).toBe(8)
+    })
+
+    test('should give untyped AVIF and HEIC images an image type, not a video type', async () => {
+        // ('ftyp' boxes with major brand 'mif1', as used by both formats)
+        const ftyp = (brand: string) => new Blob([Uint8Array.from(
+            `\x00\x00\x00\x18ftypmif1\x00\x00\x00\x00mif1${brand}`,
+            character => character.charCodeAt(0),
+        )])
+        const fetchResource = jest.fn()
+            .mockResolvedValueOnce({ url: 'https://example.com/pic', blob: ftyp('avif') })
+            .mockResolvedValueOnce({ url: 'https://example.com/pic', blob: ftyp('heic') })
+        const config = makeConfig(fetchResource)
+
+        const avif = await fetchSubresource(makeLink('image'), parentResource, config)
+        expect(avif.blob.type).toBe('image/avif')
+        const heic = await fetchSubresource(makeLink('image'), parentResource, config)
+        expect(heic.blob.type).toBe('image/heic')
+    })
+
+    test('should note the requested URL and selected response headers', async () => {
+        const fetchResource = jest.fn().mockResolvedValue({
+            ...makeResponse(200),
+            url: 'https://example.com/moved/pic.png',
+            headers: new Headers({ 'ETag': '"v1"', 'Set-Cookie': 'secret=1' }),
+        })
+        const config = makeConfig(fetchResource)
+
+        const before = Date.now()
+        const result = await fetchSubresource(makeLink(), parentResource, config)
+
+        expect(result.url).toBe('https://example.com/moved/pic.png')
+        expect(result.response).toEqual({
+            requestedUrl: 'https://example.com/pic.png',
+            redirectChain: ['https://example.com/pic.png', 'https://example.com/moved/pic.png'],
+            status: 200,
+            headers: { etag: '"v1"' },
+            retrievedAt: expect.any(Number),
+        })
+        expect(result.response.retrievedAt).toBeGreaterThanOrEqual(before)
+    })
+
+    test('should retry after a network error, if allowed', async () => {
+        const fetchResource = jest.fn()
+            .mockRejectedValueOnce(new TypeError('Network error'))
+            .mockResolvedValueOnce(makeResponse(200))
+        await fetchSubresource(makeLink(), parentResource, makeConfig(fetchResource, {
+            default: { retries: 1, retryDelay: 0 },
+        }))
+        expect(fetchResource).toHaveBeenCalledTimes(2)
+
+        fetchResource.mockClear()
+        fetchResource.mockRejectedValueOnce(new TypeError('Network error'))
+        await expect(fetchSubresource(makeLink(), parentResource, makeConfig(fetchResource, {
+            default: { retries: 1, retryDelay: 0, retryOnError: false },
+        }))).rejects.toThrow('Network error')
+        expect(fetchResource).toHaveBeenCalledTimes(1)
+    })
+
+    test('should apply the policy of the link’s subresource type', async () => {
+        const fetchResource = jest.fn().mockResolvedValue(makeResponse(503))
+        const config = makeConfig(fetchResource, {
+            image: { retries: 2, retryDelay: 0 },
+            video: { retries: 0 },
+        })
+
+        await expect(fetchSubresource(makeLink('video'), parentResource, config)).rejects.toThrow()
+        expect(fetchResource).toHaveBeenCalledTimes(1)
+    })
+
+    test('should abort an attempt that exceeds the timeout', async () => {
+        const signals: AbortSignal[] = []
+        const fetchResource = jest.fn()
+            .mockImplementationOnce((url, init) => {
+                signals.push(init.signal)
+                return new Promise(() => {}) // never resolves
+            })
+            .mockResolvedValueOnce(makeResponse(200))
+        const config = makeConfig(fetchResource, {
+            image: { timeout: 10, retries: 1, retryDelay: 0 },
+        })
+
+        await fetchSubresource(makeLink(), parentResource, config)
+        expect(fetchResource).toHaveBeenCalledTimes(2)
+        expect(signals[0].aborted).toBe(true)
+    })
+
+    test('should not retry once the crawl is aborted', async () => {
+        const abortController = new AbortController()
+        const fetchResource = jest.fn(async () => {
+            abortController.abort()
+            throw new Error('Aborted')
+        })
+        const config = {
+            ...makeConfig(fetchResource, { image: { retries: 2, retryDelay: 0 } }),
+            signal: abortController.signal,
+        }
+
+        await expect(fetchSubresource(makeLink(), parentResource, config))
+            .rejects.toThrow('Aborted')
+        expect(fetchResource).toHaveBeenCalledTimes(1)
+    })
+
+    test('should stop waiting to retry once the crawl is aborted', async () => {
+        jest.useFakeTimers()
+        try {
+            const abortController = new AbortController()
+            const fetchResource = jest.fn().mockResolvedValue(makeResponse(503))
+            const config = {
+                ...makeConfig(fetchResource, { image: { retries: 2, retryDelay: 60000 } }),
+                signal: abortController.signal,
+            }
+
+            const fetchP = fetchSubresource(makeLink(), parentResource, config)
+            // Let the first attempt finish, so it starts waiting to retry.
+            await new Promise(resolve => jest.requireActual('timers').setImmediate(resolve))
+            expect(fetchResource).toHaveBeenCalledTimes(1)
+            expect(jest.getTimerCount()).toBe(1)
+            abortController.abort()
+
+            await expect(fetchP).rejects.toThrow('Aborted before retrying')
+            expect(fetchResource).toHaveBeenCalledTimes(1)
+            expect(jest.getTimerCount()).toBe(0)
+        } finally {
+            jest.useRealTimers()
+        }
+    })
+
+    test('should abort the download of a resource exceeding the maximum size', async () => {
+        const signals: AbortSignal[] = []
+        const blob = jest.fn()
+        const fetchResource = jest.fn(async (url, init) => {
+            signals.push(init.signal)
+            return { ...makeResponse(200), headers: new Headers({ 'Content-Length': '5000' }), blob }
+        })
+        const config = makeConfig(fetchResource, {
+            image: { maxSize: 1000, retries: 2, retryDelay: 0 },
+        })
+
+        await expect(fetchSubresource(makeLink(), parentResource, config))
+            .rejects.toThrow('too large')
+        expect(signals[0].aborted).toBe(true)
+        expect(blob).not.toHaveBeenCalled()
+        expect(fetchResource).toHaveBeenCalledTimes(1)
+    })
+
+    test('should reject a resource exceeding the maximum size without Content-Length', async () => {
+        const fetchResource = jest.fn().mockResolvedValue(makeResponse(200))
+        await expect(fetchSubresource(makeLink(), parentResource, makeConfig(fetchResource, {
+            image: { maxSize: 5 },
+        }))).rejects.toThrow('too large')
+        await expect(fetchSubresource(makeLink(), parentResource, makeConfig(fetchResource, {
+            image: { maxSize: 7 },
+        }))).resolves.toBeDefined()
+    })
+
+    test('should report its progress', async () => {
+        const chunks = [new Uint8Array(3), new Uint8Array(4)]
+        const response = {
+            ...makeResponse(200),
+            headers: new Headers({ 'Content-Length': '7', 'Content-Type': 'image/png' }),
+            body: { getReader: () => ({
+                read: async () => chunks.length > 0
+                    ? { done: false, value: chunks.shift() }
+                    : { done: true },
+            }) },
+        }
+        const events = []
+        const config = {
+            ...makeConfig(jest.fn().mockResolvedValue(response)),
+            onProgress: event => events.push(event),
+        }
+
+        const result = await fetchSubresource(makeLink(), parentResource, config)
+        expect(result.blob.size).toBe(7)
+        expect(result.blob.type).toBe('image/png')
+        const url = 'https://example.com/pic.png'
+        const subresourceType = 'image'
+        expect(events).toEqual([
+            { type: 'discovered', url, subresourceType },
+            { type: 'started', url, subresourceType, attempt: 0 },
+            { type: 'received', url, subresourceType, bytesReceived: 3, bytesTotal: 7 },
+            { type: 'received', url, subresourceType, bytesReceived: 7, bytesTotal: 7 },
+            { type: 'finished', url, subresourceType, size: 7 },
+        ])
+    })
+
+    test('should not fail if the progress callback throws', async () => {
+        const onProgress = jest.fn(() => { throw new Error('Oops') })
+        const config = { ...makeConfig(jest.fn().mockResolvedValue(makeResponse(200))), onProgress }
+
+        const result = await fetchSubresource(makeLink(), parentResource, config)
+        expect(result.url).toBe('https://example.com/pic.png')
+        expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ type: 'finished' }))
+    })
+
+    test('should pass the request options', async () => {
+        const fetchResource = jest.fn().mockResolvedValue(makeResponse(200))
+        const getRequestInit = jest.fn(({ subresourceType }) => ({
+            credentials: 'include',
+            headers: { 'X-Type': subresourceType },
+        }))
+        const config = { ...makeConfig(fetchResource), getRequestInit }
+
+        await fetchSubresource(makeLink(), parentResource, config)
+
+        expect(getRequestInit).toHaveBeenCalledWith(expect.objectContaining({
+            subresourceType: 'image',
+            parentResource,
+        }))
+        expect(fetchResource).toHaveBeenCalledWith('https://example.com/pic.png', {
+            cache: 'force-cache',
+            redirect: 'follow',
+            credentials: 'include',
+            referrer: 'https://example.com/page.html',
+            headers: { 'X-Type': 'image' },
+            signal: expect.anything(),
+        })
+    })
+
+    test('should pass a cross-origin parent as the referrer to fetchResource', async () => {
+        const fetchResource = jest.fn().mockResolvedValue(makeResponse(200))
+        const stylesheet: Resource = {
+            url: 'https://cdn.example.net/style.css',
+            blob: new Blob(),
+            links: [],
+        }
+
+        await fetchSubresource(makeLink(), stylesheet, makeConfig(fetchResource))
+
+        // (fetch() itself would replace it, but a custom fetchResource gets to see it)
+        const requestInit = fetchResource.mock.calls[0][1]
+        expect(requestInit.referrer).toBe('https://cdn.example.net/style.css')
+        expect(requestInit.credentials).toBe('same-origin')
+    })
+
+    test('should use a fresh resource from the resource cache', async () => {
+        const fetchResource = jest.fn()
+        const cachedBlob = new Blob(['cached'])
+        const resourceCache = {
+            get: jest.fn(async () => ({ url: 'https://example.com/pic.png', blob: cachedBlob })),
+            put: jest.fn(),
+        }
+        const config = { ...makeConfig(fetchResource), resourceCache }
+
+        const result = await fetchSubresource(makeLink(), parentResource, config)
+
+        expect(resourceCache.get).toHaveBeenCalledWith('https://example.com/pic.png')
+        expect(fetchResource).not.toHaveBeenCalled()
+        expect(result.blob).toBe(cachedBlob)
+    })
+
+    test('should apply the fetch policy and type checks to fresh cached resources', async () => {
+        const fetchResource = jest.fn()
+        const cached = {
+            url: 'https://example.com/pic.png',
+            blob: new Blob(['<!DOCTYPE html><html>'], { type: 'text/html' }),
+        }
+        const resourceCache = { get: jest.fn(async () => cached), put: jest.fn() }
+        const config = { ...makeConfig(fetchResource), resourceCache }
+
+        await expect(fetchSubresource(makeLink('image'), parentResource, config))
+            .rejects.toThrow('Expected https://example.com/pic.png to be of type image')
+        const configWithMaxSize = {
+            ...makeConfig(fetchResource, { document: { maxSize: 10 } }),
+            resourceCache,
+        }
+        await expect(fetchSubresource(makeLink('document'), parentResource, configWithMaxSize))
+            .rejects.toThrow('too large')
+        expect(fetchResource).not.toHaveBeenCalled()
+    })
+
+    test('should store fetched resources in the resource cache', async () => {
+        const fetchResource = jest.fn().mockResolvedValue({
+            ...makeResponse(200),
+            headers: new Headers({ 'Cache-Control': 'max-age=60', 'ETag': '"v1"' }),
+        })
+        const resourceCache = { get: jest.fn(), put: jest.fn() }
+        const config = { ...makeConfig(fetchResource), resourceCache }
+
+        const before = Date.now()
+        await fetchSubresource(makeLink(), parentResource, config)
+
+        expect(resourceCache.put).toHaveBeenCalledTimes(1)
+        const [url, cached] = resourceCache.put.mock.calls[0]
+        expect(url).toBe('https://example.com/pic.png')
+        expect(cached).toMatchObject({ url: 'https://example.com/pic.png', etag: '"v1"' })
+        expect(cached.expires).toBeGreaterThanOrEqual(before + 60000)
+    })
+
+    test('should store resources without caching headers for a limited time', async () => {
+        const fetchResource = jest.fn()
+            .mockResolvedValueOnce({ url: 'https://example.com/pic.png', blob: new Blob(['x']) })
+            .mockResolvedValueOnce({
+                ...makeResponse(200),
+                headers: new Headers({ 'ETag': '"v1"' }),
+            })
+        const resourceCache = { get: jest.fn(), put: jest.fn() }
+        const config = { ...makeConfig(fetchResource), resourceCache }
+
+        const before = Date.now()
+        await fetchSubresource(makeLink(), parentResource, config)
+        await fetchSubresource(makeLink(), parentResource, config)
+        const after = Date.now()
+
+        expect(resourceCache.put).toHaveBeenCalledTimes(2)
+        for (const [, cached] of resourceCache.put.mock.calls) {
+            expect(cached.expires).toBeGreaterThan(before)
+            expect(cached.expires).toBeLessThanOrEqual(after + 5 * 60 * 1000)
+        }
+    })
+
+    test('should revalidate an expired resource from the resource cache', async () => {
+        const fetchResource = jest.fn().mockResolvedValue({
+            ...makeResponse(304),
+            headers: new Headers({ 'Cache-Control': 'max-age=60' }),
+        })
+        const cachedBlob = new Blob(['cached'])
+        const cachedResource = {
+            url: 'https://example.com/pic.png',
+            blob: cachedBlob,
+            etag: '"v1"',
+            expires: Date.now() - 1000,
+        }
+        const resourceCache = { get: jest.fn(() => cachedResource), put: jest.fn() }
+        const config = { ...makeConfig(fetchResource), resourceCache }
+
+        const result = await fetchSubresource(makeLink(), parentResource, config)
+
+        const requestInit = fetchResource.mock.calls[0][1]
+        expect(requestInit.headers.get('If-None-Match')).toBe('"v1"')
+        expect(result.blob).toBe(cachedBlob)
+        expect(resourceCache.put).toHaveBeenCalledWith('https://example.com/pic.png', {
+            ...cachedResource,
+            expires: expect.any(Number),
+        })
+        expect(resourceCache.put.mock.calls[0][1].expires).toBeGreaterThan(Date.now())
+    })
+
+    test('should apply the fetch policy and type checks to revalidated resources', async () => {
+        const fetchResource = jest.fn().mockResolvedValue(makeResponse(304))
+        const cached = {
+            url: 'https://example.com/pic.png',
+            blob: new Blob(['<!DOCTYPE html><html>'], { type: 'text/html' }),
+            etag: '"v1"',
+            expires: Date.now() - 1000,
+        }
+        const resourceCache = { get: jest.fn(async () => cached), put: jest.fn() }
+        const config = { ...makeConfig(fetchResource), resourceCache }
+
+        await expect(fetchSubresource(makeLink('image'), parentResource, config))
+            .rejects.toThrow('Expected https://example.com/pic.png to be of type image')
+        const configWithMaxSize = {
+            ...makeConfig(fetchResource, { document: { maxSize: 10 } }),
+            resourceCache,
+        }
+        await expect(fetchSubresource(makeLink('document'), parentResource, configWithMaxSize))
+            .rejects.toThrow('too large')
+        expect(fetchResource).toHaveBeenCalledTimes(2)
+    })
+
+    test('should fetch as usual if the resource cache fails', async () => {
+        const fetchResource = jest.fn().mockResolvedValue(makeResponse(200))
+        const resourceCache = {
+            get: jest.fn(async () => { throw new Error('Broken cache') }),
+            put: jest.fn(async () => { throw new Error('Broken cache') }),
+        }
+        const config = { ...makeConfig(fetchResource), resourceCache }
+
+        const result = await fetchSubresource(makeLink(), parentResource, config)
+
+        expect(fetchResource).toHaveBeenCalledTimes(1)
+        expect(result.blob).toBeInstanceOf(Blob)
+    })
+})
+
+describe('getFetchPolicy', () => {
+    test('should combine the type’s policy with the default ones', () => {
+        const config = {
+            fetchPolicies: {
+                default: { retries: 1, timeout: 1000 },
+                font: { timeout: 5000 },
+            },
+        }
+        expect(getFetchPolicy('font', config)).toEqual({
+            ...defaultFetchPolicy,
+            retries: 1,
+            timeout: 5000,
+        })
+        expect(getFetchPolicy(undefined, {})).toEqual(defaultFetchPolicy)
+    })
+})
@@ -0,0 +1,564 @@
+import {
+    UrlString,
+    GlobalConfig,
+    FetchPolicy,
+    Resource,
+    ResponseMetadata,
+    CachedResource,
+} from '../types'
+import { SubresourceLink } from '../extract-links/types'
+import { SubresourceType } from '../extract-links/url-attributes/types'
+import { Scheduler, subresourcePriority } from './scheduler'
+import { SubresourceSkippedError, SubresourceTimeoutError } from './errors'
+import { blobToBytes } from './decode-text'
+import sniffMimeType, { sniffBinaryMimeType, isIsoMediaFile } from './sniff-mime-type'
+import reportProgress from '../report-progress'
+
+export type FetchSubresourceConfig = Pick<
+    GlobalConfig,
+    | 'fetchResource'
+    | 'getRequestInit'
+    | 'fetchPolicies'
+    | 'resourceCache'
+    | 'signal'
+    | 'onProgress'
+    | 'glob'
+> & {
+    // Shared among all fetches of a crawl, to limit the number of concurrent requests.
+    scheduler?: Scheduler,
+
+    // Shared among all fetches of a crawl, to fetch each URL only once.
+    fetchCache?: Map<UrlString, Promise<FetchedResource>>,
+}
+
+export interface FetchedResource {
+    url: UrlString;
+    blob: Blob;
+
+    // Absent only if the resource came from a resource cache that did not store it.
+    response?: ResponseMetadata;
+}
+
+// What a single fetch gives us; the status and headers are absent if fetchResource did not return
+// a Response (nor provided these itself).
+interface FetchResult {
+    url: UrlString;
+    blob: Blob;
+    status?: number;
+    headers?: Headers;
+    redirectChain?: UrlString[];
+    retrievedAt: number;
+}
+
+// The response headers that are recorded in a resource's metadata; mostly those telling about the
+// content and its provenance.
+const recordedHeaders = [
+    'cache-control',
+    'content-disposition',
+    'content-language',
+    'content-length',
+    'content-location',
+    'content-type',
+    'date',
+    'etag',
+    'expires',
+    'last-modified',
+    'link',
+    'memento-datetime',
+]
+
+// The policy used for any field not specified in config.fetchPolicies. By default, we try only
+// once, and wait as long as it takes (though note the timeout of freezeDry itself).
+export const defaultFetchPolicy: FetchPolicy = {
+    timeout: Infinity,
+    retries: 0,
+    retryDelay: 500,
+    retryStatuses: [408, 429, 500, 502, 503, 504],
+    retryOnError: true,
+    maxSize: Infinity,
+}
+
+/**
+ * Fetch the target of a subresource link, following the fetch policy for its subresource type.
+ * @param {Object} link - the link to fetch the target of.
+ * @param {Object} parentResource - the resource containing the link.
+ * @param {Function} [config.fetchResource] - custom function for fetching resources.
+ * @param {Function} [config.getRequestInit] - custom function for determining the request options
+ * (e.g. credentials, referrer, headers) for the link; see defaultRequestInit for the defaults, and
+ * why the given referrer is not always the one sent.
+ * @param {Object} [config.fetchPolicies] - fetch policies per subresource type; see FetchPolicies.
+ * @param {AbortSignal} [config.signal] - signal to abort the fetch, including any retries.
+ * @param {Object} [config.scheduler] - scheduler to wait for before each attempt.
+ * @param {Map} [config.fetchCache] - (pending) fetches by URL; if the link's target is in there,
+ * that result is reused, otherwise the new fetch is added to it.
+ * @param {Object} [config.resourceCache] - a (possibly persistent) cache that is consulted before
+ * fetching, and in which fetched resources are stored.
+ * @param {Function} [config.onProgress] - callback that is told when a (not cached) fetch is
+ * discovered, started (for every attempt), receives data, finishes, or fails.
+ * @returns {Promise<Object>} the fetched resource, as { url, blob, response }; the url is the final
+ * URL of the resource (i.e. after any redirects), and response holds metadata about the response
+ * (see ResponseMetadata).
+ */
+export default async function fetchSubresource(
+    link: SubresourceLink,
+    parentResource: Resource,
+    config: FetchSubresourceConfig,
+): Promise<FetchedResource> {
+    if (link.absoluteTarget === undefined) {
+        throw new Error(`Cannot fetch invalid target: ${link.target}`)
+    }
+    const url = link.absoluteTarget
+
+    const cachedFetch = config.fetchCache?.get(url)
+    if (cachedFetch) return await cachedFetch
+
+    const subresourceType = link.subresourceType
+    reportProgress({ type: 'discovered', url, subresourceType }, config)
+    // As we fetch each URL only once, the first link to it determines the request options.
+    const requestInit = getRequestInit(link, parentResource, config)
+    const fetch = fetchWithResourceCache(url, subresourceType, requestInit, config).then(
+        fetchedResource => {
+            const size = fetchedResource.blob.size
+            reportProgress({ type: 'finished', url, subresourceType, size }, config)
+            return fetchedResource
+        },
+        error => {
+            reportProgress({ type: 'failed', url, subresourceType, error }, config)
+            throw error
+        },
+    )
+    config.fetchCache?.set(url, fetch)
+    return await fetch
+}
+
+// Gets the resource from config.resourceCache if it has a fresh copy, and fetches it otherwise. An
+// expired copy is revalidated using a conditional request, if the cache has validation metadata.
+async function fetchWithResourceCache(
+    url: UrlString,
+    subresourceType: SubresourceType | undefined,
+    requestInit: RequestInit,
+    config: FetchSubresourceConfig,
+): Promise<FetchedResource> {
+    const resourceCache = config.resourceCache
+    if (!resourceCache) {
+        const fetchResult = await fetchWithPolicy(url, subresourceType, requestInit, config)
+        const fetchedResource = await validateFetchResult(url, fetchResult, subresourceType, config)
+        return await withMimeType(fetchedResource, subresourceType, config)
+    }
+
+    // A failing cache should not stop us from fetching, so we ignore its errors.
+    const cached = await Promise.resolve(resourceCache.get(url)).catch(() => undefined)
+    const now = Date.now()
+    if (cached && (cached.expires === undefined || cached.expires > now)) {
+        return await validateCachedResource(url, cached, subresourceType, config)
+    }
+
+    if (cached && (cached.etag !== undefined || cached.lastModified !== undefined)) {
+        const headers = new config.glob.Headers(requestInit.headers)
+        if (cached.etag !== undefined) headers.set('If-None-Match', cached.etag)
+        if (cached.lastModified !== undefined) headers.set('If-Modified-Since', cached.lastModified)
+        requestInit = { ...requestInit, headers }
+    }
+    const fetchResult = await fetchWithPolicy(url, subresourceType, requestInit, config)
+
+    if (cached && fetchResult.status === 304) {
+        // Not modified; we keep using the cached resource, with the renewed expiry time.
+        const metadata = cacheMetadata(fetchResult.headers, now)
+        if (metadata) {
+            await Promise.resolve(resourceCache.put(url, { ...cached, ...metadata }))
+                .catch(() => {})
+        }
+        return await validateCachedResource(url, cached, subresourceType, config)
+    }
+
+    const fetchedResource = await withMimeType(
+        await validateFetchResult(url, fetchResult, subresourceType, config),
+        subresourceType,
+        config,
+    )
+    const metadata = cacheMetadata(fetchResult.headers, now)
+    if (metadata) {
+        await Promise.resolve(resourceCache.put(url, { ...fetchedResource, ...metadata }))
+            .catch(() => {})
+    }
+    return fetchedResource
+}
+
+// Checks that a fetch succeeded and gave us the expected type of content, rather than e.g. an HTML
+// error page behind an <img src>. Throws an error if not, so the link is left without a resource.
+async function validateFetchResult(
+    requestedUrl: UrlString,
+    fetchResult: FetchResult,
+    subresourceType: SubresourceType | undefined,
+    config: Pick<GlobalConfig, 'glob'>,
+): Promise<FetchedResource> {
+    const { url, blob, status } = fetchResult
+    if (status !== undefined && (status < 200 || status > 299)) {
+        throw new Error(`Fetching ${url} failed with status ${status}.`)
+    }
+    await checkContentType(url, blob, subresourceType, config)
+    return { url, blob, response: responseMetadata(requestedUrl, fetchResult) }
+}
+
+// Applies the checks of a fetch to a resource from the resource cache, as it may have been stored
+// under a different fetch policy, or for a link of another subresource type.
+async function validateCachedResource(
+    requestedUrl: UrlString,
+    cached: CachedResource,
+    subresourceType: SubresourceType | undefined,
+    config: FetchSubresourceConfig,
+): Promise<FetchedResource> {
+    const { url, blob, response } = cached
+    const maxSize = getFetchPolicy(subresourceType, config).maxSize
+    if (blob.size > maxSize) {
+        throw new SubresourceSkippedError(`Not using the cached ${requestedUrl}, as it is too`
+            + ` large (${blob.size} bytes).`)
+    }
+    await checkContentType(url, blob, subresourceType, config)
+    return { url, blob, response }
+}
+
+// Throws an error if the content is not of a type acceptable for the subresource type.
+async function checkContentType(
+    url: UrlString,
+    blob: Blob,
+    subresourceType: SubresourceType | undefined,
+    config: Pick<GlobalConfig, 'glob'>,
+): Promise<void> {
+    const isAcceptableType = subresourceType && acceptableTypes[subresourceType]
+    if (!isAcceptableType) return
+    const bytes = await blobToBytes(blob.slice(0, 512), config)
+    const declaredType = blob.type.split(';')[0].trim().toLowerCase()
+    const isGenericType = ['', 'application/octet-stream', 'text/plain', 'unknown/unknown']
+        .includes(declaredType)
+    // Like browsers do for images and fonts, we trust their ‘magic bytes’ over their declared type.
+    // Guessing the type from the content in other ways (e.g. recognising the start of an HTML
+    // document) is not reliable enough for that, so we only do so if the declared type is generic.
+    const binaryType = subresourceType === 'image' || subresourceType === 'font'
+        ? sniffBinaryMimeType(bytes)
+        : undefined
+    // If no type is known, we give it the benefit of the doubt. Likewise if the content is in the
+    // ISO media format that many audio, video and image formats share, as we may not know the
+    // brand of a new format; then an acceptable declared type suffices.
+    const type = binaryType ?? (isGenericType ? sniffMimeType(bytes) : declaredType)
+    const isAcceptableIsoMediaFile = isIsoMediaFile(bytes) && isAcceptableType(declaredType)
+    if (type !== undefined && !isAcceptableType(type) && !isAcceptableIsoMediaFile) {
+        throw new Error(`Expected ${url} to be of type ${subresourceType}, but it is ${type}.`)
+    }
+}
+
+function responseMetadata(requestedUrl: UrlString, fetchResult: FetchResult): ResponseMetadata {
+    const { url, status, headers, retrievedAt } = fetchResult
+    const redirectChain = fetchResult.redirectChain
+        ?? (url === requestedUrl ? [requestedUrl] : [requestedUrl, url])
+    const recorded: { [name: string]: string } = {}
+    for (const name of recordedHeaders) {
+        const value = headers?.get(name)
+        if (value !== null && value !== undefined) recorded[name] = value
+    }
+    return {
+        requestedUrl,
+        redirectChain,
+        ...(status !== undefined && { status }),
+        headers: recorded,
+        retrievedAt,
+    }
+}
+
+// Gives the resource's blob a MIME type if it lacks one (e.g. because a custom fetchResource did
+// not set it), as a data URL without one would not be usable for e.g. fonts and SVG images.
+async function withMimeType(
+    fetchedResource: FetchedResource,
+    subresourceType: SubresourceType | undefined,
+    config: Pick<GlobalConfig, 'glob'>,
+): Promise<FetchedResource> {
+    const { url, blob } = fetchedResource
+    if (blob.type !== '') return fetchedResource
+    const bytes = await blobToBytes(blob.slice(0, 512), config)
+    const mimeType = sniffMimeType(bytes, { subresourceType, url })
+    if (mimeType === undefined) return fetchedResource
+    return { ...fetchedResource, blob: blob.slice(0, blob.size, mimeType) }
+}
+
+// For some subresource types, the MIME types a browser would accept for them.
+const acceptableTypes: { [Key in SubresourceType]?: (mimeType: string) => boolean } = {
+    image: mimeType => mimeType.startsWith('image/'),
+    font: mimeType => mimeType.startsWith('font/')
+        || /^application\/(x-)?font-/.test(mimeType)
+        || mimeType === 'application/vnd.ms-fontobject',
+    style: mimeType => mimeType === 'text/css',
+    manifest: mimeType => /[/+]json$/.test(mimeType),
+}
+
+// How long a cached resource stays fresh if its response does not tell (in milliseconds).
+const defaultCacheLifetime = 5 * 60 * 1000
+
+// Reads the validation metadata and expiry time for a resource cache from the response headers.
+// Returns undefined if the response must not be stored.
+function cacheMetadata(headers: Headers | undefined, now: number): {
+    etag?: string,
+    lastModified?: string,
+    expires: number,
+} | undefined {
+    // Without headers (i.e. fetchResource returned no Response), we cannot tell when it expires, so
+    // it gets the default lifetime; likewise if the headers do not say.
+    if (!headers) return { expires: now + defaultCacheLifetime }
+    const cacheControl = (headers.get('Cache-Control') || '').toLowerCase()
+    if (/(^|,)\s*no-store\s*(,|$)/.test(cacheControl)) return undefined
+
+    const etag = headers.get('ETag') ?? undefined
+    const lastModified = headers.get('Last-Modified') ?? undefined
+    let expires = now + defaultCacheLifetime
+    const maxAge = cacheControl.match(/(?:^|,)\s*max-age\s*=\s*"?(\d+)"?/)
+    if (/(^|,)\s*no-cache\s*(,|$)/.test(cacheControl)) {
+        expires = now // (i.e. it has to be revalidated before using it)
+    } else if (maxAge) {
+        expires = now + Number(maxAge[1]) * 1000
+    } else if (headers.has('Expires')) {
+        // An invalid date means it has expired already.
+        expires = Date.parse(headers.get('Expires') as string) || now
+    }
+    return {
+        ...(etag !== undefined && { etag }),
+        ...(lastModified !== undefined && { lastModified }),
+        expires,
+    }
+}
+
+async function fetchWithPolicy(
+    url: UrlString,
+    subresourceType: SubresourceType | undefined,
+    requestInit: RequestInit,
+    config: FetchSubresourceConfig,
+): Promise<FetchResult> {
+    const policy = getFetchPolicy(subresourceType, config)
+    const schedulingOptions = {
+        origin: getOrigin(url, config),
+        priority: subresourcePriority(subresourceType),
+    }
+
+    for (let attempt = 0; ; attempt++) {
+        const canRetry = attempt < policy.retries
+        const task = () => {
+            // Do not start any new fetches after being aborted (fetchResource might not support
+            // aborting).
+            if (config.signal?.aborted) {
+                throw new Error(`Aborted before fetching ${url}`)
+            }
+            reportProgress({ type: 'started', url, subresourceType, attempt }, config)
+            return attemptFetch(url, subresourceType, requestInit, policy, canRetry, config)
+        }
+        let fetchedResource: FetchResult | undefined
+        try {
+            fetchedResource = config.scheduler
+                ? await config.scheduler.schedule(task, schedulingOptions)
+                : await task()
+        } catch (error) {
+            if (
+                !(canRetry && policy.retryOnError)
+                || config.signal?.aborted
+                || error instanceof SubresourceSkippedError
+            ) throw error
+        }
+        if (fetchedResource) return fetchedResource
+
+        // Back off exponentially before trying again.
+        await waitBeforeRetry(url, policy.retryDelay * 2 ** attempt, config)
+    }
+}
+
+// Resolves after the given delay, or rejects as soon as the crawl is aborted.
+function waitBeforeRetry(
+    url: UrlString,
+    delay: number,
+    config: Pick<GlobalConfig, 'signal' | 'glob'>,
+): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            config.glob.clearTimeout(timer)
+            reject(new Error(`Aborted before retrying ${url}`))
+        }
+        const timer = config.glob.setTimeout(() => {
+            config.signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, delay)
+        if (config.signal?.aborted) onAbort()
+        else config.signal?.addEventListener('abort', onAbort)
+    })
+}
+
+// The request options used unless config.getRequestInit overrides them. Like a browser would, we
+// send credentials (i.e. cookies) only to the same origin, and pass the URL of the document or
+// stylesheet containing the link as the referrer. Note that fetch() only accepts a referrer of the
+// same origin as the page (or extension) calling it; it silently replaces any other referrer (e.g.
+// a stylesheet from a CDN) with the URL of that page itself. A custom fetchResource could still
+// make use of it.
+export function defaultRequestInit(parentResource: Resource): RequestInit {
+    return {
+        // Get resources from the cache if possible, as we are most likely interested in the
+        // version the page is currently showing.
+        cache: 'force-cache',
+        redirect: 'follow',
+        credentials: 'same-origin',
+        // (a referrer must be an http(s) URL; a document could be e.g. about:srcdoc or a data URL)
+        ...(/^https?:/i.test(parentResource.url) && { referrer: parentResource.url }),
+    }
+}
+
+function getRequestInit(
+    link: SubresourceLink,
+    parentResource: Resource,
+    config: Pick<GlobalConfig, 'getRequestInit'>,
+): RequestInit {
+    const requestInit = defaultRequestInit(parentResource)
+    if (!config.getRequestInit) return requestInit
+    return {
+        ...requestInit,
+        ...config.getRequestInit({
+            link,
+            subresourceType: link.subresourceType,
+            parentResource,
+            defaultRequestInit: requestInit,
+        }),
+    }
+}
+
+export function getFetchPolicy(
+    subresourceType: SubresourceType | undefined,
+    config: Pick<GlobalConfig, 'fetchPolicies'>,
+): FetchPolicy {
+    const fetchPolicies = config.fetchPolicies || {}
+    return {
+        ...defaultFetchPolicy,
+        ...fetchPolicies.default,
+        ...(subresourceType && fetchPolicies[subresourceType]),
+    }
+}
+
+function getOrigin(url: UrlString, config: Pick<GlobalConfig, 'glob'>): string {
+    try {
+        return new config.glob.URL(url).origin
+    } catch (err) {
+        return url
+    }
+}
+
+// Does a single attempt at fetching the url. Resolves to undefined if the response has a status
+// that is worth retrying (unless no retries remain, in which case we just take what we got).
+async function attemptFetch(
+    url: UrlString,
+    subresourceType: SubresourceType | undefined,
+    requestInit: RequestInit,
+    policy: FetchPolicy,
+    canRetry: boolean,
+    config: FetchSubresourceConfig,
+): Promise<FetchResult | undefined> {
+    // Abort this attempt when it times out, or when the whole crawl is aborted.
+    const abortController = config.glob.AbortController && new config.glob.AbortController()
+    const abort = () => abortController?.abort()
+    config.signal?.addEventListener('abort', abort)
+
+    let timer: number | undefined
+    const timeout = new Promise<never>((resolve, reject) => {
+        if (policy.timeout === Infinity) return
+        timer = config.glob.setTimeout(() => {
+            abort()
+            reject(new SubresourceTimeoutError(`Timed out fetching ${url}`))
+        }, policy.timeout)
+    })
+
+    const doFetch = async () => {
+        const fetchFunction = config.fetchResource || config.glob.fetch
+        const resourceOrResponse = await fetchFunction(url, {
+            ...requestInit,
+            signal: abortController?.signal ?? config.signal,
+        })
+        const retrievedAt = Date.now()
+        // (a custom fetchResource may give the headers as a plain object)
+        const headers = 'headers' in resourceOrResponse && resourceOrResponse.headers
+            ? new config.glob.Headers(resourceOrResponse.headers)
+            : undefined
+        if (
+            canRetry
+            && resourceOrResponse.status !== undefined
+            && policy.retryStatuses.includes(resourceOrResponse.status)
+        ) {
+            return undefined
+        }
+        // If the response tells us its size in advance, we can abort the download of a resource
+        // that is too large.
+        const contentLength = Number(headers?.get('Content-Length') ?? NaN)
+        if (contentLength > policy.maxSize) {
+            abort()
+            throw new SubresourceSkippedError(`Not fetching ${url}, as it is too large`
+                + ` (${contentLength} bytes).`)
+        }
+        // If we got a Response, we wait for the content to arrive.
+        let blob: Blob
+        const isStreamable = 'body' in resourceOrResponse && resourceOrResponse.body
+        if (isStreamable && (config.onProgress || policy.maxSize !== Infinity)) {
+            // Read the body bit by bit, to be able to report the bytes received, and to stop as
+            // soon as the resource turns out to be too large.
+            blob = await readBody(resourceOrResponse as Response, config, bytesReceived => {
+                if (bytesReceived > policy.maxSize) {
+                    abort()
+                    throw new SubresourceSkippedError(`Not fetching ${url} any further, as it is`
+                        + ` too large (over ${policy.maxSize} bytes).`)
+                }
+                reportProgress({
+                    type: 'received',
+                    url,
+                    subresourceType,
+                    bytesReceived,
+                    bytesTotal: Number.isNaN(contentLength) ? undefined : contentLength,
+                }, config)
+            })
+        } else {
+            blob = typeof resourceOrResponse.blob === 'function'
+                ? await resourceOrResponse.blob()
+                : resourceOrResponse.blob
+        }
+        if (blob.size > policy.maxSize) {
+            throw new SubresourceSkippedError(`Not keeping ${url}, as it is too large`
+                + ` (${blob.size} bytes).`)
+        }
+        return {
+            blob,
+            // Read the final URL of the resource (after any redirects).
+            url: resourceOrResponse.url,
+            status: resourceOrResponse.status,
+            headers,
+            redirectChain: 'redirectChain' in resourceOrResponse
+                ? resourceOrResponse.redirectChain
+                : undefined,
+            retrievedAt,
+        }
+    }
+
+    try {
+        return await Promise.race([doFetch(), timeout])
+    } finally {
+        config.glob.clearTimeout(timer)
+        config.signal?.removeEventListener('abort', abort)
+    }
+}
+
+// Reads the body of a response into a Blob, like response.blob() does, calling onData whenever a
+// chunk of data has arrived.
+async function readBody(
+    response: Response,
+    config: Pick<GlobalConfig, 'glob'>,
+    onData: (bytesReceived: number) => void,
+): Promise<Blob> {
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader()
+    const chunks: Uint8Array[] = []
+    let bytesReceived = 0
+    for (;;) {
+        const { done, value } = await reader.read()
+        if (done || value === undefined) break
+        chunks.push(value)
+        bytesReceived += value.length
+        onData(bytesReceived)
+    }
+    return new config.glob.Blob(chunks, { type: response.headers.get('Content-Type') ?? '' })
+}
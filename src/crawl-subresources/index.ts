@@ -0,0 +1,471 @@
+import {
+    makeDomResource,
+    makeStylesheetResource,
+    makeManifestResource,
+    isSvgDocument,
+} from '../make-resource'
+import { allResourcesInTree } from '../resource-tree'
+import { UrlString, Resource, DomResource, StylesheetResource, GlobalConfig } from '../types'
+import {
+    Link,
+    SubresourceLink,
+    HtmlDocumentLink,
+    ManifestImageLink,
+} from '../extract-links/types'
+import { SubresourceType } from '../extract-links/url-attributes/types'
+import fetchSubresource, { FetchSubresourceConfig, FetchedResource } from './fetch-subresource'
+import { createScheduler, Scheduler } from './scheduler'
+import { decodeHtml, decodeStylesheet, decodeXml, decodeManifest } from './decode-text'
+import parseBlocklist from './blocklist'
+import { SubresourceBlockedError, SubresourceSkippedError, SubresourceAbortedError } from './errors'
+
+type CrawlSubresourcesOfDomConfig = FetchSubresourceConfig
+    & Pick<GlobalConfig,
+        | 'maxConcurrency'
+        | 'maxConcurrencyPerOrigin'
+        | 'maxFrameDepth'
+        | 'maxImportDepth'
+        | 'blockSubresource'
+        | 'blocklist'
+    >
+    & {
+        // If given, the reason for leaving any link without a resource is noted in here.
+        linkErrors?: Map<SubresourceLink, unknown>,
+    }
+
+type CrawlSubresourcesConfig = CrawlSubresourcesOfDomConfig & {
+    scheduler: Scheduler,
+    fetchCache: Map<UrlString, Promise<FetchedResource>>,
+
+    // Stylesheets by URL, so that a stylesheet linked to multiple times is parsed (and its own
+    // subresources crawled) only once, with all links sharing the same resource object.
+    stylesheetCache: Map<UrlString, Promise<StylesheetResource>>,
+
+    // Tells whether a URL is on config.blocklist (parsed once for the whole crawl).
+    isOnBlocklist: (url: UrlString) => boolean,
+
+    // The URLs of the documents and stylesheets on the chain from the root document to the current
+    // resource, to avoid endlessly recursing into e.g. a frame that frames its own page, or a
+    // stylesheet that imports itself.
+    ancestorUrls: UrlString[],
+
+    // How many frames (or embedded documents) deep the current document is; 0 for the root.
+    frameDepth: number,
+
+    // How many stylesheets deep the current resource is: 0 for a document, 1 for a stylesheet it
+    // links to, 2 for a stylesheet @imported by that, etc.
+    importDepth: number,
+}
+type LinkCrawlerFunction = (
+    link: SubresourceLink,
+    parentResource: Resource,
+    config: CrawlSubresourcesConfig,
+) => Promise<void>
+
+/**
+ * Recursively fetch the subresources of a DOM resource.
+ * @param {Object} resource - the resource object representing the DOM with its subresources.
+ * @param {Function} [config.fetchResource] - custom function for fetching resources; should be
+ * API-compatible with the global fetch(), but may also return { blob, url } instead of a Response.
+ * @param {Function} [config.getRequestInit] - custom function for determining the request options
+ * for fetching a link's subresource.
+ * @param {Object} [config.fetchPolicies] - timeouts and retry policies, per subresource type.
+ * @param {Object} [config.resourceCache] - cache for subresources, shared across snapshots.
+ * @param {number} [config.maxConcurrency=16] - maximum number of concurrent requests.
+ * @param {number} [config.maxConcurrencyPerOrigin=6] - maximum number of concurrent requests to
+ * the same origin.
+ * @param {Function} [config.onProgress] - callback that is passed an event object whenever the
+ * fetch of a subresource URL is discovered, started, receives data, finishes or fails.
+ * @param {AbortSignal} [config.signal] - signal to abort all pending fetches. Links whose
+ * subresource has not been fetched by then are left without a resource.
+ * @param {number} [config.maxFrameDepth=Infinity] - how deeply nested frames (or embedded
+ * documents) may be to be crawled; with 1, only the root document's frames are crawled; with 0,
+ * none are.
+ * @param {number} [config.maxImportDepth=Infinity] - how deep to crawl stylesheets imported (using
+ * @import) by stylesheets. With 0, no imported stylesheets are crawled at all.
+ * @param {Function} [config.blockSubresource] - function that is passed an object { link, url,
+ * subresourceType, parentResource }, and returns true if the link's subresource should not be
+ * crawled.
+ * @param {string|string[]} [config.blocklist] - hostnames and URL patterns whose subresources
+ * should not be crawled (see parseBlocklist for the format).
+ * @param {Map} [config.linkErrors] - if given, the error (e.g. a failed fetch) that caused a link
+ * to be left without a resource is put in here.
+ * @returns nothing; subresources are stored in the links of the given resource.
+ */
+async function crawlSubresourcesOfDom(
+    resource: DomResource,
+    config: CrawlSubresourcesOfDomConfig,
+) {
+    // A single scheduler limits the concurrent requests of the whole crawl, including those for
+    // the subresources of stylesheets and frames. Likewise, the caches are shared by the whole
+    // crawl, so each distinct URL is fetched only once.
+    const {
+        maxConcurrency = 16,
+        maxConcurrencyPerOrigin = 6,
+    } = config
+    const scheduler = createScheduler({ maxConcurrency, maxConcurrencyPerOrigin })
+    await crawlDomResource(resource, {
+        ...config,
+        scheduler,
+        fetchCache: new Map(),
+        stylesheetCache: new Map(),
+        isOnBlocklist: config.blocklist ? parseBlocklist(config.blocklist, config) : () => false,
+        ancestorUrls: [],
+        frameDepth: 0,
+        importDepth: 0,
+    })
+}
+export default crawlSubresourcesOfDom
+
+async function crawlDomResource(resource: DomResource, config: CrawlSubresourcesConfig) {
+    const supportedSubresourceTypes: Array<String | undefined> = [
+        'image', 'document', 'style', 'video', 'audio', 'track', 'font', 'embed', 'object',
+        'manifest',
+    ]
+
+    const linksToCrawl: SubresourceLink[] = resource.links
+        .filter((link: Link): link is SubresourceLink => link.isSubresource)
+        .filter(link => supportedSubresourceTypes.includes(link.subresourceType))
+
+    // Start recursively and concurrently crawling the resources.
+    await crawlSubresources(linksToCrawl, resource, {
+        ...config,
+        ancestorUrls: [...config.ancestorUrls, resource.url],
+        importDepth: 0,
+    })
+}
+
+async function crawlSubresources(
+    links: SubresourceLink[],
+    parentResource: Resource,
+    config: CrawlSubresourcesConfig,
+) {
+    await Promise.allSettled(links.map(link => crawlSubresource(link, parentResource, config)))
+}
+
+async function crawlSubresource(
+    link: SubresourceLink,
+    parentResource: Resource,
+    config: CrawlSubresourcesConfig,
+) {
+    const crawlers: { [Key in SubresourceType]?: LinkCrawlerFunction } = {
+        image: crawlImage,
+        document: crawlFrame,
+        style: crawlStylesheet,
+        video: crawlLeafSubresource, // Videos cannot have subresources (afaik; maybe they can?)
+        audio: crawlLeafSubresource,
+        track: crawlLeafSubresource, // Text tracks (e.g. WebVTT captions) have no subresources.
+        font: crawlLeafSubresource, // Fonts cannot have subresources (afaik; maybe they can?)
+        embed: crawlEmbeddedContent,
+        object: crawlEmbeddedContent,
+        manifest: crawlManifest,
+    }
+    const crawler = link.subresourceType && crawlers[link.subresourceType]
+    if (crawler === undefined) {
+        throw new Error(`Not sure how to crawl subresource of type ${link.subresourceType}`)
+    }
+    try {
+        if (isBlocked(link, parentResource, config)) {
+            // Also drop any resource already present (e.g. a frame's document captured live).
+            link.resource = undefined
+            throw new SubresourceBlockedError(`Blocked ${link.absoluteTarget}.`)
+        }
+        await crawler(link, parentResource, config)
+    } catch (error) {
+        // Note why this link is left without a resource. If the crawl was aborted, that is likely
+        // the actual reason.
+        config.linkErrors?.set(link, config.signal?.aborted
+            ? new SubresourceAbortedError(`Crawling was aborted before ${link.target} was done.`)
+            : error)
+        throw error
+    }
+}
+
+function isBlocked(
+    link: SubresourceLink,
+    parentResource: Resource,
+    config: CrawlSubresourcesConfig,
+): boolean {
+    const url = link.absoluteTarget
+    if (url === undefined) return false
+    return config.isOnBlocklist(url) || !!config.blockSubresource?.({
+        link,
+        url,
+        subresourceType: link.subresourceType,
+        parentResource,
+    })
+}
+
+async function crawlLeafSubresource(
+    link: SubresourceLink,
+    parentResource: Resource,
+    config: CrawlSubresourcesConfig,
+) {
+    const fetchedResource = await fetchSubresource(link, parentResource, config)
+    link.resource = {
+        url: fetchedResource.url,
+        blob: fetchedResource.blob,
+        links: [],
+        response: fetchedResource.response,
+    }
+}
+
+async function crawlImage(
+    link: SubresourceLink,
+    parentResource: Resource,
+    config: CrawlSubresourcesConfig,
+) {
+    // Browsers do not show an SVG image inside itself, so neither should we (nor recurse endlessly).
+    throwIfRecursive(link.absoluteTarget, config)
+
+    const fetchedResource = await fetchSubresource(link, parentResource, config)
+
+    // Most images cannot have subresources, but SVG images can. We parse those as a document.
+    if (mimeTypeOf(fetchedResource) === 'image/svg+xml') {
+        throwIfRecursive(fetchedResource.url, config)
+        const svgResource = await parseSvgResource(fetchedResource, config)
+        // If the SVG is invalid, we just keep the original image.
+        if (svgResource) {
+            link.resource = svgResource
+            await crawlDomResource(svgResource, config)
+            return
+        }
+    }
+
+    link.resource = {
+        url: fetchedResource.url,
+        blob: fetchedResource.blob,
+        links: [],
+        response: fetchedResource.response,
+    }
+}
+
+async function crawlFrame(
+    link: HtmlDocumentLink,
+    parentResource: Resource,
+    config: CrawlSubresourcesConfig,
+) {
+    const frameDepth = config.frameDepth + 1
+    if (frameDepth > (config.maxFrameDepth ?? Infinity)) {
+        // Also leave out the frame's content if it was captured in captureDom().
+        link.resource = undefined
+        throw new SubresourceSkippedError(
+            `Not crawling frame ${link.absoluteTarget}, as it is nested too deeply.`,
+        )
+    }
+
+    // Maybe this link already has a resource: we try to capture (i)frame content in captureDom().
+    if (!link.resource) {
+        // Apparently we could not capture the frame's DOM in the initial step (getDocInFrame gave
+        // null, or the link is inside a document that was itself refetched). To still do the best
+        // we can, we fetch and parse the framed document's html source and work with that.
+        throwIfRecursive(link.absoluteTarget, config)
+        const fetchedResource = await fetchSubresource(link, parentResource, config)
+        throwIfRecursive(fetchedResource.url, config)
+        link.resource = await parseHtmlResource(fetchedResource, parentResource, config)
+    }
+
+    await crawlDomResource(link.resource, { ...config, frameDepth })
+}
+
+async function crawlEmbeddedContent(
+    link: SubresourceLink,
+    parentResource: Resource,
+    config: CrawlSubresourcesConfig,
+) {
+    // An <embed> or <object> can contain anything: an HTML or SVG document (which we treat like a
+    // frame or SVG image, respectively), or some other type of file (e.g. a PDF).
+    throwIfRecursive(link.absoluteTarget, config)
+    // As we cannot tell whether it contains a document without fetching it, we treat all embedded
+    // content like a frame when it comes to the maximum depth.
+    const frameDepth = config.frameDepth + 1
+    if (frameDepth > (config.maxFrameDepth ?? Infinity)) {
+        throw new SubresourceSkippedError(
+            `Not crawling ${link.absoluteTarget}, as it is nested too deeply.`,
+        )
+    }
+
+    const fetchedResource = await fetchSubresource(link, parentResource, config)
+
+    const mimeType = mimeTypeOf(fetchedResource)
+    if (mimeType === 'text/html' || mimeType === 'image/svg+xml') {
+        throwIfRecursive(fetchedResource.url, config)
+        const docResource = mimeType === 'text/html'
+            ? await parseHtmlResource(fetchedResource, parentResource, config)
+            : await parseSvgResource(fetchedResource, config)
+        if (docResource) {
+            link.resource = docResource
+            await crawlDomResource(docResource, { ...config, frameDepth })
+            return
+        }
+    }
+
+    link.resource = {
+        url: fetchedResource.url,
+        blob: fetchedResource.blob,
+        links: [],
+        response: fetchedResource.response,
+    }
+}
+
+async function crawlManifest(
+    link: SubresourceLink,
+    parentResource: Resource,
+    config: CrawlSubresourcesConfig,
+) {
+    const fetchedResource = await fetchSubresource(link, parentResource, config)
+    const { text: manifestText } = await decodeManifest(fetchedResource.blob, config)
+    const manifestResource = makeManifestResource({
+        // Note that the final URL may differ from link.absoluteTarget in case of redirects.
+        url: fetchedResource.url,
+        manifestText,
+        response: fetchedResource.response,
+    }, config)
+    link.resource = manifestResource
+
+    // Crawl the manifest's icons and screenshots.
+    const linksToCrawl = manifestResource.links
+        .filter((manifestLink): manifestLink is ManifestImageLink => manifestLink.isSubresource)
+    await crawlSubresources(linksToCrawl, manifestResource, config)
+}
+
+// Parse a fetched HTML document, and create a mutable resource for it (similar to the resource
+// captureDom() returns). Even if another link has the same URL, it gets its own resource, as its
+// document is mutated separately.
+async function parseHtmlResource(
+    fetchedResource: FetchedResource,
+    parentResource: Resource,
+    config: CrawlSubresourcesConfig,
+): Promise<DomResource> {
+    // A frame only inherits the encoding of its parent document if they are of the same origin.
+    const { text: html, encoding } = await decodeHtml(
+        fetchedResource.blob,
+        isSameOrigin(fetchedResource.url, parentResource.url, config)
+            ? encodingOf(parentResource)
+            : undefined,
+        config,
+    )
+    const parser = new config.glob.DOMParser()
+    const doc = parser.parseFromString(html, 'text/html')
+    return makeDomResource({
+        // Note that the final URL may differ from link.absoluteTarget in case of redirects.
+        url: fetchedResource.url,
+        doc,
+        captureMethod: 'refetched',
+        encoding,
+        response: fetchedResource.response,
+    }, config)
+}
+
+// Parse a fetched SVG image as a document, and create a resource for it; or return undefined if it
+// is not a valid SVG document.
+async function parseSvgResource(
+    fetchedResource: FetchedResource,
+    config: CrawlSubresourcesConfig,
+): Promise<DomResource | undefined> {
+    const { text, encoding } = await decodeXml(fetchedResource.blob, config)
+    const parser = new config.glob.DOMParser()
+    const svgDoc = parser.parseFromString(text, 'image/svg+xml')
+    const isValid = svgDoc.documentElement.localName === 'svg'
+        && svgDoc.getElementsByTagName('parsererror').length === 0
+    if (!isSvgDocument(svgDoc) || !isValid) return undefined
+    return makeDomResource({
+        url: fetchedResource.url,
+        doc: svgDoc,
+        captureMethod: 'refetched',
+        encoding,
+        response: fetchedResource.response,
+    }, config)
+}
+
+// Refuse to crawl a document or stylesheet that is already being crawled higher up in the tree.
+function throwIfRecursive(url: UrlString | undefined, config: CrawlSubresourcesConfig) {
+    if (url !== undefined && config.ancestorUrls.includes(url)) {
+        throw new SubresourceSkippedError(`Not crawling ${url}, as it would include itself.`)
+    }
+}
+
+// The MIME type of a fetched resource, without parameters such as its charset.
+function mimeTypeOf(fetchedResource: FetchedResource): string {
+    return fetchedResource.blob.type.split(';')[0].trim().toLowerCase()
+}
+
+async function crawlStylesheet(
+    link: SubresourceLink,
+    parentResource: Resource,
+    config: CrawlSubresourcesConfig,
+) {
+    const url = link.absoluteTarget
+    // The import depth is 0 if the parent is a document, 1 if it is a stylesheet linked from a
+    // document (i.e. this is an @import), etc.
+    if (config.importDepth > (config.maxImportDepth ?? Infinity)) {
+        throw new SubresourceSkippedError(
+            `Not crawling stylesheet ${url}, as it is imported too deeply.`,
+        )
+    }
+    throwIfRecursive(url, config)
+
+    const cachedStylesheet = url !== undefined && config.stylesheetCache.get(url)
+    if (cachedStylesheet) {
+        const stylesheetResource = await cachedStylesheet
+        // Share the resource, unless this would create a cycle (e.g. two stylesheets that @import
+        // each other), which could not be inlined anyway.
+        if ([...allResourcesInTree(stylesheetResource)].includes(parentResource)) {
+            throw new SubresourceSkippedError(
+                `Not crawling stylesheet ${url}, as it would link to itself.`,
+            )
+        }
+        link.resource = stylesheetResource
+        return
+    }
+
+    const stylesheetResourceP = fetchAndParseStylesheet(link, parentResource, config)
+    if (url !== undefined) config.stylesheetCache.set(url, stylesheetResourceP)
+    const stylesheetResource = await stylesheetResourceP
+
+    link.resource = stylesheetResource
+
+    // Recurse to crawl the subresources of this stylesheet.
+    await crawlSubresources(stylesheetResource.links, stylesheetResource, {
+        ...config,
+        ancestorUrls: [...config.ancestorUrls, stylesheetResource.url],
+        importDepth: config.importDepth + 1,
+    })
+}
+
+async function fetchAndParseStylesheet(
+    link: SubresourceLink,
+    parentResource: Resource,
+    config: CrawlSubresourcesConfig,
+): Promise<StylesheetResource> {
+    const fetchedResource = await fetchSubresource(link, parentResource, config)
+    // Note that the final URL may differ from link.absoluteTarget in case of redirects.
+    const stylesheetUrl = fetchedResource.url
+    const { text: stylesheetText, encoding } = await decodeStylesheet(
+        fetchedResource.blob,
+        encodingOf(parentResource),
+        config,
+    )
+
+    return makeStylesheetResource({
+        url: stylesheetUrl,
+        stylesheetText,
+        encoding,
+        response: fetchedResource.response,
+    }, config)
+}
+
+// The encoding of a resource, which is used as the fallback encoding of its subresources.
+function encodingOf(resource: Resource): string | undefined {
+    return 'encoding' in resource ? resource.encoding : undefined
+}
+
+function isSameOrigin(url1: UrlString, url2: UrlString, config: CrawlSubresourcesConfig): boolean {
+    try {
+        const origin = new config.glob.URL(url1).origin
+        // (an opaque origin, e.g. of a data URL, is not even the same as itself)
+        return origin !== 'null' && origin === new config.glob.URL(url2).origin
+    } catch (err) {
+        return false
+    }
+}
@@ -0,0 +1,46 @@
+import createMemoryCache from './memory-cache'
+
+function makeCachedResource(name: string, size: number) {
+    return { url: `https://example.com/${name}`, blob: new Blob(['x'.repeat(size)]) }
+}
+
+describe('createMemoryCache', () => {
+    test('should return the resources put into it', () => {
+        const cache = createMemoryCache()
+        const resource = makeCachedResource('a.png', 10)
+
+        cache.put('https://example.com/a.png', resource)
+
+        expect(cache.get('https://example.com/a.png')).toBe(resource)
+        expect(cache.get('https://example.com/b.png')).toBeUndefined()
+    })
+
+    test('should evict the least recently used resources when full', () => {
+        const cache = createMemoryCache({ maxSize: 250 })
+        cache.put('https://example.com/a.png', makeCachedResource('a.png', 100))
+        cache.put('https://example.com/b.png', makeCachedResource('b.png', 100))
+        cache.get('https://example.com/a.png')
+
+        cache.put('https://example.com/c.png', makeCachedResource('c.png', 100))
+
+        expect(cache.get('https://example.com/a.png')).toBeDefined()
+        expect(cache.get('https://example.com/b.png')).toBeUndefined()
+        expect(cache.get('https://example.com/c.png')).toBeDefined()
+    })
+
+    test('should limit the number of entries', () => {
+        const cache = createMemoryCache({ maxEntries: 1 })
+        cache.put('https://example.com/a.png', makeCachedResource('a.png', 1))
+        cache.put('https://example.com/b.png', makeCachedResource('b.png', 1))
+
+        expect(cache.get('https://example.com/a.png')).toBeUndefined()
+        expect(cache.get('https://example.com/b.png')).toBeDefined()
+    })
+
+    test('should not store a resource larger than the cache', () => {
+        const cache = createMemoryCache({ maxSize: 50 })
+        cache.put('https://example.com/a.png', makeCachedResource('a.png', 100))
+
+        expect(cache.get('https://example.com/a.png')).toBeUndefined()
+    })
+})
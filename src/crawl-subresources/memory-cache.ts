@@ -0,0 +1,50 @@
+import { UrlString, ResourceCache, CachedResource } from '../types'
+
+/**
+ * Create a resource cache that keeps resources in memory. It can be shared by multiple freezeDry
+ * calls. When it is full, the least recently used resources are evicted.
+ * @param {Object} [options]
+ * @param {number} [options.maxSize=50000000] - the maximum total size (in bytes) of the resources.
+ * @param {number} [options.maxEntries=Infinity] - the maximum number of resources.
+ * @returns {Object} the resource cache.
+ */
+export default function createMemoryCache({
+    maxSize = 50e6,
+    maxEntries = Infinity,
+}: {
+    maxSize?: number,
+    maxEntries?: number,
+} = {}): ResourceCache {
+    // A Map iterates in insertion order, so by reinserting an entry whenever it is used, the first
+    // entry is always the least recently used one.
+    const entries = new Map<UrlString, CachedResource>()
+    let totalSize = 0
+
+    function remove(url: UrlString) {
+        const entry = entries.get(url)
+        if (entry === undefined) return
+        entries.delete(url)
+        totalSize -= entry.blob.size
+    }
+
+    function get(url: UrlString): CachedResource | undefined {
+        const entry = entries.get(url)
+        if (entry !== undefined) {
+            entries.delete(url)
+            entries.set(url, entry)
+        }
+        return entry
+    }
+
+    function put(url: UrlString, resource: CachedResource) {
+        remove(url)
+        if (resource.blob.size > maxSize) return
+        entries.set(url, resource)
+        totalSize += resource.blob.size
+        while (totalSize > maxSize || entries.size > maxEntries) {
+            remove(entries.keys().next().value)
+        }
+    }
+
+    return { get, put }
+}
@@ -0,0 +1,87 @@
+import { createScheduler, subresourcePriority } from './scheduler'
+
+// Creates a task that only completes when we tell it to, and notes when it has started.
+function makeTask(name: string, started: string[]) {
+    let finish: () => void
+    const finished = new Promise<void>(resolve => { finish = resolve })
+    const task = async () => {
+        started.push(name)
+        await finished
+        return name
+    }
+    return { task, finish: () => finish() }
+}
+
+// Let pending promise callbacks run.
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('createScheduler', () => {
+    test('should limit the number of concurrent tasks', async () => {
+        const scheduler = createScheduler({ maxConcurrency: 2 })
+        const started: string[] = []
+        const tasks = ['a', 'b', 'c'].map(name => makeTask(name, started))
+        const results = tasks.map(({ task }) => scheduler.schedule(task, {
+            origin: 'https://example.com',
+            priority: 0,
+        }))
+
+        await flush()
+        expect(started).toEqual(['a', 'b'])
+
+        tasks[0].finish()
+        expect(await results[0]).toBe('a')
+        await flush()
+        expect(started).toEqual(['a', 'b', 'c'])
+    })
+
+    test('should limit the number of concurrent tasks per origin', async () => {
+        const scheduler = createScheduler({ maxConcurrency: 10, maxConcurrencyPerOrigin: 1 })
+        const started: string[] = []
+        const a1 = makeTask('a1', started)
+        const a2 = makeTask('a2', started)
+        const b1 = makeTask('b1', started)
+        scheduler.schedule(a1.task, { origin: 'https://a.example', priority: 0 })
+        scheduler.schedule(a2.task, { origin: 'https://a.example', priority: 0 })
+        scheduler.schedule(b1.task, { origin: 'https://b.example', priority: 0 })
+
+        await flush()
+        expect(started).toEqual(['a1', 'b1'])
+
+        a1.finish()
+        await flush()
+        expect(started).toEqual(['a1', 'b1', 'a2'])
+    })
+
+    test('should start waiting tasks in order of priority', async () => {
+        const scheduler = createScheduler({ maxConcurrency: 1 })
+        const started: string[] = []
+        const tasks = ['first', 'video', 'style', 'image'].map(name => makeTask(name, started))
+        const priorities = [0, subresourcePriority('video'), subresourcePriority('style'),
+            subresourcePriority('image')]
+        tasks.forEach(({ task }, i) => scheduler.schedule(task, {
+            origin: 'https://example.com',
+            priority: priorities[i],
+        }))
+
+        for (const { finish } of tasks) {
+            await flush()
+            finish()
+        }
+        await flush()
+        expect(started).toEqual(['first', 'style', 'image', 'video'])
+    })
+
+    test('should free the slot of a failing task', async () => {
+        const scheduler = createScheduler({ maxConcurrency: 1 })
+        const failing = scheduler.schedule(async () => { throw new Error('Failed') }, {
+            origin: 'https://example.com',
+            priority: 0,
+        })
+        const next = scheduler.schedule(async () => 'next', {
+            origin: 'https://example.com',
+            priority: 0,
+        })
+        await expect(failing).rejects.toThrow('Failed')
+        expect(await next).toBe('next')
+    })
+})
@@ -0,0 +1,94 @@
+import { SubresourceType } from '../extract-links/url-attributes/types'
+
+export interface Scheduler {
+    // Runs the task as soon as the concurrency limits permit; among waiting tasks, those with the
+    // lowest priority number go first (and in order of scheduling in case of a tie).
+    schedule<T>(task: () => Promise<T>, options: { origin: string, priority: number }): Promise<T>
+}
+
+interface QueuedTask {
+    run(): void;
+    origin: string;
+    priority: number;
+}
+
+// The order in which subresources of different types are fetched when requests have to wait.
+// Stylesheets come first, as they lead to further subresources (and fonts); large media come last.
+export const subresourceTypePriorities: SubresourceType[] = [
+    'style',
+    'font',
+    'document',
+    'image',
+    'manifest',
+    'track',
+    'audio',
+    'video',
+    'embed',
+    'object',
+]
+
+export function subresourcePriority(subresourceType: SubresourceType | undefined): number {
+    const index = subresourceType ? subresourceTypePriorities.indexOf(subresourceType) : -1
+    return index !== -1 ? index : subresourceTypePriorities.length
+}
+
+/**
+ * Create a scheduler that limits how many tasks (e.g. fetches) run at the same time.
+ * @param {Object} limits
+ * @param {number} [limits.maxConcurrency=Infinity] - the maximum number of concurrent tasks.
+ * @param {number} [limits.maxConcurrencyPerOrigin=Infinity] - the maximum number of concurrent
+ * tasks for the same origin.
+ * @returns {Object} scheduler
+ */
+export function createScheduler({
+    maxConcurrency = Infinity,
+    maxConcurrencyPerOrigin = Infinity,
+}: {
+    maxConcurrency?: number,
+    maxConcurrencyPerOrigin?: number,
+}): Scheduler {
+    const queue: QueuedTask[] = []
+    let runningCount = 0
+    const runningCountPerOrigin = new Map<string, number>()
+    const runningCountOf = (origin: string) => runningCountPerOrigin.get(origin) || 0
+
+    function startNextTasks() {
+        while (runningCount < maxConcurrency) {
+            let next: QueuedTask | undefined
+            for (const queuedTask of queue) {
+                if (runningCountOf(queuedTask.origin) >= maxConcurrencyPerOrigin) continue
+                if (next === undefined || queuedTask.priority < next.priority) {
+                    next = queuedTask
+                }
+            }
+            if (next === undefined) return
+            queue.splice(queue.indexOf(next), 1)
+            next.run()
+        }
+    }
+
+    function schedule<T>(
+        task: () => Promise<T>,
+        { origin, priority }: { origin: string, priority: number },
+    ): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const run = async () => {
+                runningCount++
+                runningCountPerOrigin.set(origin, runningCountOf(origin) + 1)
+                try {
+                    resolve(await task())
+                } catch (error) {
+                    reject(error)
+                } finally {
+                    runningCount--
+                    runningCountPerOrigin.set(origin, runningCountOf(origin) - 1)
+                    startNextTasks()
+                }
+            }
+            queue.push({ run, origin, priority })
+            startNextTasks()
+        })
+    }
+
+    return { schedule }
+}
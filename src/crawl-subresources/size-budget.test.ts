@@ -0,0 +1,88 @@
+import applySizeBudget from './size-budget'
+import { DomResource, Resource } from '../types'
+import { SubresourceLink } from '../extract-links/types'
+import { SubresourceType } from '../extract-links/url-attributes/types'
+
+// Creates a resource of the given size, with links to the given subresources.
+function makeResource(
+    name: string,
+    size: number,
+    subresources: Array<[SubresourceType, Resource]> = [],
+): DomResource {
+    const links: SubresourceLink[] = subresources.map(([subresourceType, resource]) => ({
+        target: resource.url,
+        isSubresource: true,
+        subresourceType,
+        from: {},
+        resource,
+    }))
+    // (only the properties used by applySizeBudget; as the root must be a DomResource, we pretend
+    // they all are)
+    return {
+        url: `https://example.com/${name}`,
+        blob: new Blob(['x'.repeat(size)]),
+        links,
+    } as Partial<DomResource> as DomResource
+}
+
+function makeExampleTree() {
+    const font = makeResource('font.woff', 300)
+    const stylesheet = makeResource('style.css', 100, [['font', font]])
+    const image = makeResource('image.png', 200)
+    const video = makeResource('video.mp4', 1000)
+    const doc = makeResource('page.html', 100, [
+        ['style', stylesheet],
+        ['image', image],
+        ['video', video],
+        ['image', image],
+    ])
+    return { doc, stylesheet, font, image, video }
+}
+
+// The room reserved for the metadata that createSingleFile adds (which includes the document URL).
+const metadataSize = 500 + 'https://example.com/page.html'.length
+
+describe('applySizeBudget', () => {
+    test('should drop the least important subresources first', () => {
+        const { doc, stylesheet } = makeExampleTree()
+
+        applySizeBudget(doc, { maxTotalSize: metadataSize + 800 })
+
+        const linkedResources = doc.links.map(link => link.resource)
+        expect(linkedResources).toEqual([stylesheet, undefined, undefined, undefined])
+        expect(stylesheet.links[0].resource).toBeDefined()
+    })
+
+    test('should keep everything that fits within the budget', () => {
+        const { doc, video } = makeExampleTree()
+
+        applySizeBudget(doc, { maxTotalSize: metadataSize + 1400 })
+
+        expect(doc.links[2].resource).toBeUndefined()
+        expect(doc.links.filter(link => link.resource).length).toBe(3)
+        expect(doc.links.map(link => link.resource)).not.toContain(video)
+    })
+
+    test('should count subresources at their inlined size, once per link', () => {
+        // As base64 data URLs, the font (300 bytes) inside the stylesheet (100 bytes) takes 697
+        // bytes, and each image (200 bytes) 281 bytes; with the document (100 bytes), 1359 bytes.
+        // (keepOriginalAttributes is not set, so no room is reserved for those attributes)
+        const fits = makeExampleTree()
+        applySizeBudget(fits.doc, { maxTotalSize: metadataSize + 1359 })
+        expect(fits.doc.links.map(link => link.resource))
+            .toEqual([fits.stylesheet, fits.image, undefined, fits.image])
+
+        const tooBig = makeExampleTree()
+        applySizeBudget(tooBig.doc, { maxTotalSize: metadataSize + 1358 })
+        expect(tooBig.doc.links.map(link => link.resource))
+            .toEqual([tooBig.stylesheet, undefined, undefined, undefined])
+    })
+
+    test('should do nothing without a budget', () => {
+        const { doc } = makeExampleTree()
+
+        applySizeBudget(doc, {})
+
+        expect(doc.links.every(link => link.resource)).toBe(true)
+    })
+})
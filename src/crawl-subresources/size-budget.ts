@@ -0,0 +1,100 @@
+import { DomResource, GlobalConfig, Resource } from '../types'
+import { Link, SubresourceLink } from '../extract-links/types'
+import { allResourcesInTree } from '../resource-tree'
+import { subresourcePriority } from './scheduler'
+import { SubresourceSkippedError } from './errors'
+
+/**
+ * Drop subresources from the tree until the size of the snapshot fits within the budget. The
+ * least important types of subresources are dropped first (e.g. videos before fonts, and fonts
+ * before stylesheets), and among those the largest first. A dropped subresource is simply detached
+ * from the links to it, so it will not be inlined.
+ *
+ * The size of the snapshot is estimated from the size its resources will have once inlined: each
+ * subresource becomes a base64-encoded data URL (a third larger), inside a parent that may in turn
+ * be encoded (e.g. a font inside a stylesheet inside a frame), and it is inlined once per link.
+ * Room is also reserved for what createSingleFile adds: the original values of links (with
+ * keepOriginalAttributes), and metadata such as the Content Security Policy. For the most accurate
+ * estimate, apply the budget after drying the resources (as scripts etc. are removed then).
+ * @param {Object} resource - the resource object representing the DOM with its subresources.
+ * @param {number} [config.maxTotalSize=Infinity] - the budget, in bytes. Note that the root
+ * document counts towards it, though it is never dropped.
+ * @param {boolean} [config.keepOriginalAttributes] - whether the snapshot will keep the original
+ * values of links in data-original-* attributes.
+ * @param {Map} [config.linkErrors] - if given, the links whose subresource is dropped are noted in
+ * here (with an error as the reason).
+ * @returns nothing; the links of the given resource and its subresources may be mutated.
+ */
+export default function applySizeBudget(
+    resource: DomResource,
+    config: Pick<GlobalConfig, 'maxTotalSize' | 'keepOriginalAttributes'> & {
+        linkErrors?: Map<SubresourceLink, unknown>,
+    },
+) {
+    const { maxTotalSize = Infinity } = config
+    if (maxTotalSize === Infinity) return
+
+    // Serialising a document to measure its size is not cheap, so we measure each resource once.
+    const sizes = new Map<Resource, number>()
+    const sizeOf = (subresource: Resource) => {
+        let size = sizes.get(subresource)
+        if (size === undefined) {
+            size = subresource.blob.size
+            sizes.set(subresource, size)
+        }
+        return size
+    }
+    // The size of a resource with all its subresources inlined. For simplicity, the links' current
+    // targets are counted too (as if kept in a data-original-* attribute).
+    const inlinedSizeOf = (subresource: Resource): number => {
+        let size = sizeOf(subresource)
+        for (const link of subresource.links as Link[]) {
+            if (!link.isSubresource || !link.resource) continue
+            size += dataUrlSize(inlinedSizeOf(link.resource), link.resource.blob.type)
+            if (config.keepOriginalAttributes) size += originalAttributeSize
+        }
+        return size
+    }
+    const totalSize = () => inlinedSizeOf(resource) + metadataSize + resource.url.length
+
+    // Find all links to each subresource (a stylesheet may be linked to multiple times).
+    const linksTo = new Map<Resource, SubresourceLink[]>()
+    for (const parentResource of allResourcesInTree(resource)) {
+        for (const link of parentResource.links) {
+            if (!link.isSubresource || !link.resource) continue
+            linksTo.set(link.resource, [...linksTo.get(link.resource) || [], link])
+        }
+    }
+    // A subresource is as important as the most important link to it.
+    const priorityOf = (subresource: Resource) => Math.min(...(linksTo.get(subresource) || [])
+        .map(link => subresourcePriority(link.subresourceType)))
+    const subresources = [...linksTo.keys()].sort((a, b) =>
+        priorityOf(b) - priorityOf(a) || sizeOf(b) - sizeOf(a)
+    )
+
+    let total = totalSize()
+    for (const subresource of subresources) {
+        if (total <= maxTotalSize) break
+        for (const link of linksTo.get(subresource) || []) {
+            link.resource = undefined
+            config.linkErrors?.set(link, new SubresourceSkippedError(
+                `Dropped ${subresource.url}, as the total size exceeds ${maxTotalSize} bytes.`,
+            ))
+        }
+        // Dropping e.g. a frame also drops its subresources.
+        total = totalSize()
+    }
+}
+
+// Room for the name of the attribute that keeps a link's original value, e.g. data-original-src="".
+const originalAttributeSize = 32
+
+// Room for the elements that createSingleFile adds to the document: the <meta charset>, the
+// Content Security Policy, and the metadata (if addMetadata), which take about 350 bytes together
+// plus the document's URL.
+const metadataSize = 500
+
+// The length of a base64-encoded data URL for content of the given size and type.
+function dataUrlSize(size: number, type: string): number {
+    return `data:${type};base64,`.length + Math.ceil(size / 3) * 4
+}
@@ -0,0 +1,95 @@
+import sniffMimeType, { sniffBinaryMimeType } from './sniff-mime-type'
+
+function bytes(string: string) {
+    return Uint8Array.from(string, character => character.charCodeAt(0))
+}
+
+describe('sniffMimeType', () => {
+    test('should recognise images and fonts by their magic bytes', () => {
+        expect(sniffMimeType(bytes('\x89PNG\r\n\x1A\n\x00\x00\x00\x0DIHDR'))).toBe('image/png')
+        expect(sniffMimeType(bytes('GIF89a\x01\x00'))).toBe('image/gif')
+        expect(sniffMimeType(bytes('\xFF\xD8\xFF\xE0\x00\x10JFIF'))).toBe('image/jpeg')
+        expect(sniffMimeType(bytes('RIFF\x24\x00\x00\x00WEBPVP8 '))).toBe('image/webp')
+        expect(sniffMimeType(bytes('wOFF\x00\x01\x00\x00'))).toBe('font/woff')
+        expect(sniffMimeType(bytes('wOF2\x00\x01\x00\x00'))).toBe('font/woff2')
+        expect(sniffMimeType(bytes('\x00\x01\x00\x00\x00\x10'))).toBe('font/ttf')
+    })
+
+    test('should recognise audio, video and text tracks', () => {
+        expect(sniffMimeType(bytes('ID3\x03\x00'))).toBe('audio/mpeg')
+        expect(sniffMimeType(bytes('OggS\x00\x02'))).toBe('audio/ogg')
+        expect(sniffMimeType(bytes('RIFF\x24\x00\x00\x00WAVEfmt '))).toBe('audio/wave')
+        expect(sniffMimeType(bytes('\x00\x00\x00\x20ftypisom'))).toBe('video/mp4')
+        expect(sniffMimeType(bytes('\x1A\x45\xDF\xA3\x9F'))).toBe('video/webm')
+        expect(sniffMimeType(bytes('WEBVTT\n\n00:01.000 --> 00:04.000'))).toBe('text/vtt')
+    })
+
+    test('should tell ISO media files apart by their brands', () => {
+        const ftyp = (...brands: string[]) => {
+            const size = 8 + 4 * (brands.length + 1)
+            return bytes(`\x00\x00\x00${String.fromCharCode(size)}ftyp${brands[0]}\x00\x00\x00\x00`
+                + brands.slice(1).join(''))
+        }
+        expect(sniffMimeType(ftyp('avif', 'mif1', 'miaf'))).toBe('image/avif')
+        // An AVIF image may have a generic HEIF major brand.
+        expect(sniffMimeType(ftyp('mif1', 'mif1', 'avif', 'miaf'))).toBe('image/avif')
+        expect(sniffMimeType(ftyp('heic', 'mif1', 'heic'))).toBe('image/heic')
+        expect(sniffMimeType(ftyp('mif1', 'mif1', 'heic'))).toBe('image/heic')
+        expect(sniffMimeType(ftyp('msf1', 'msf1', 'iso8'))).toBe('image/heif')
+        expect(sniffMimeType(ftyp('M4A ', 'M4A ', 'mp42', 'isom'))).toBe('audio/mp4')
+        expect(sniffMimeType(ftyp('isom', 'isom', 'iso2', 'mp41'))).toBe('video/mp4')
+        // Brands beyond the end of the box are not counted.
+        expect(sniffMimeType(bytes('\x00\x00\x00\x10ftypisom\x00\x00\x02\x00avif')))
+            .toBe('video/mp4')
+    })
+
+    test('should recognise SVG images', () => {
+        const svg = bytes('<svg xmlns="http://www.w3.org/2000/svg">')
+        expect(sniffMimeType(svg)).toBe('image/svg+xml')
+        expect(sniffMimeType(bytes(`<?xml version="1.0" encoding="UTF-8"?>
+            <!-- Made by hand -->
+            <!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "svg11.dtd">
+            <svg viewBox="0 0 10 10"></svg>`))).toBe('image/svg+xml')
+        expect(sniffMimeType(bytes('<?xml version="1.0"?><feed></feed>'))).toBeUndefined()
+    })
+
+    test('should recognise HTML', () => {
+        expect(sniffMimeType(bytes('\n  <!doctype html><html>'))).toBe('text/html')
+        expect(sniffMimeType(bytes('<HTML lang="en">'))).toBe('text/html')
+        expect(sniffMimeType(bytes('<p>Not found</p>'))).toBe('text/html')
+        expect(sniffMimeType(bytes('<blockquote>'))).toBeUndefined()
+    })
+
+    test('should fall back to the subresource type and file extension', () => {
+        const css = bytes('body { color: red; }')
+        expect(sniffMimeType(css, { subresourceType: 'style' })).toBe('text/css')
+        expect(sniffMimeType(css, { url: 'https://example.com/style.CSS?v=2' })).toBe('text/css')
+        expect(sniffMimeType(bytes('<svg/>'), { url: 'https://example.com/a.svg' }))
+            .toBe('image/svg+xml')
+        expect(sniffMimeType(bytes('\x89PNG\r\n\x1A\n'), { url: 'https://example.com/a.jpg' }))
+            .toBe('image/png')
+        expect(sniffMimeType(css, { url: 'https://example.com/file.unknown' })).toBeUndefined()
+        const json = bytes('{ "name": "App" }')
+        expect(sniffMimeType(json, { subresourceType: 'manifest' }))
+            .toBe('application/manifest+json')
+        expect(sniffMimeType(json, { url: 'https://example.com/app.webmanifest' }))
+            .toBe('application/manifest+json')
+    })
+
+    test('should return undefined for anything else', () => {
+        expect(sniffMimeType(bytes('body { color: red; }'))).toBeUndefined()
+        expect(sniffMimeType(bytes('GIF'))).toBeUndefined()
+        expect(sniffMimeType(bytes(''))).toBeUndefined()
+    })
+})
+
+describe('sniffBinaryMimeType', () => {
+    test('should only recognise binary formats', () => {
+        expect(sniffBinaryMimeType(bytes('\x89PNG\r\n\x1A\n'))).toBe('image/png')
+        expect(sniffBinaryMimeType(bytes('\x00\x00\x00\x10ftypavif\x00\x00\x00\x00')))
+            .toBe('image/avif')
+        expect(sniffBinaryMimeType(bytes('<svg xmlns="http://www.w3.org/2000/svg">')))
+            .toBeUndefined()
+        expect(sniffBinaryMimeType(bytes('<!-- a comment -->'))).toBeUndefined()
+    })
+})
@@ -0,0 +1,203 @@
+import { UrlString } from '../types'
+import { SubresourceType } from '../extract-links/url-attributes/types'
+
+// Signatures (‘magic bytes’) of file formats, mostly following the WHATWG MIME Sniffing standard
+// (https://mimesniff.spec.whatwg.org/). In a pattern, each character stands for one byte, and '?'
+// matches any byte. The first matching pattern wins, so more specific ones go first.
+const imageSignatures: Array<[string, string]> = [
+    ['image/x-icon', '\x00\x00\x01\x00'],
+    ['image/x-icon', '\x00\x00\x02\x00'], // (a cursor)
+    ['image/bmp', 'BM'],
+    ['image/gif', 'GIF87a'],
+    ['image/gif', 'GIF89a'],
+    ['image/webp', 'RIFF????WEBPVP'],
+    ['image/png', '\x89PNG\r\n\x1A\n'],
+    ['image/jpeg', '\xFF\xD8\xFF'],
+]
+
+const fontSignatures: Array<[string, string]> = [
+    ['application/vnd.ms-fontobject', `${'?'.repeat(34)}LP`],
+    ['font/ttf', '\x00\x01\x00\x00'],
+    ['font/otf', 'OTTO'],
+    ['font/collection', 'ttcf'],
+    ['font/woff', 'wOFF'],
+    ['font/woff2', 'wOF2'],
+]
+
+const mediaSignatures: Array<[string, string]> = [
+    ['audio/aiff', 'FORM????AIFF'],
+    ['audio/mpeg', 'ID3'],
+    ['audio/mpeg', '\xFF\xFB'],
+    ['audio/mpeg', '\xFF\xF3'],
+    ['audio/mpeg', '\xFF\xF2'],
+    ['audio/ogg', 'OggS\x00'],
+    ['audio/flac', 'fLaC'],
+    ['audio/midi', 'MThd\x00\x00\x00\x06'],
+    ['audio/wave', 'RIFF????WAVE'],
+    ['video/avi', 'RIFF????AVI '],
+    ['video/webm', '\x1A\x45\xDF\xA3'],
+    ['text/vtt', 'WEBVTT'],
+    ['text/vtt', '\xEF\xBB\xBFWEBVTT'],
+]
+
+// Files in the ISO base media file format (e.g. MP4 videos, but also AVIF and HEIC images) start
+// with an 'ftyp' box listing the ‘brands’ (specifications) the file conforms to. The type is given
+// by the first listed brand we recognise, checking the types in this order.
+const isoMediaBrands: Array<[string, string[]]> = [
+    ['image/avif', ['avif', 'avis']],
+    ['image/heic', ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx']],
+    ['image/heif', ['mif1', 'msf1']], // (a HEIF image of some other kind)
+    ['audio/mp4', ['M4A ']],
+]
+
+// Tags that an HTML document is likely to start with (after any whitespace).
+const htmlPrefixes = [
+    '<!DOCTYPE HTML', '<HTML', '<HEAD', '<SCRIPT', '<IFRAME', '<H1', '<DIV', '<FONT', '<TABLE',
+    '<A', '<STYLE', '<TITLE', '<B', '<BODY', '<BR', '<P', '<!--',
+]
+
+// The start of an SVG image: its <svg> root element, possibly preceded by a byte order mark, an XML
+// declaration, comments and a doctype.
+const svgStart = new RegExp('^(\xEF\xBB\xBF)?\\s*(<\\?xml[^>]*>\\s*)?(<!--[\\s\\S]*?-->\\s*)*'
+    + '(<!DOCTYPE svg[^>]*>\\s*)?(<!--[\\s\\S]*?-->\\s*)*<svg[\\s>]', 'i')
+
+// The MIME type to assume for a resource in the given context, if its content did not tell us.
+const typeByContext: { [Key in SubresourceType]?: string } = {
+    style: 'text/css',
+    track: 'text/vtt',
+    manifest: 'application/manifest+json',
+}
+
+const typeByExtension: { [extension: string]: string } = {
+    avif: 'image/avif',
+    bmp: 'image/bmp',
+    css: 'text/css',
+    eot: 'application/vnd.ms-fontobject',
+    flac: 'audio/flac',
+    gif: 'image/gif',
+    htm: 'text/html',
+    html: 'text/html',
+    ico: 'image/x-icon',
+    jpeg: 'image/jpeg',
+    jpg: 'image/jpeg',
+    json: 'application/json',
+    m4a: 'audio/mp4',
+    mp3: 'audio/mpeg',
+    mp4: 'video/mp4',
+    oga: 'audio/ogg',
+    ogg: 'audio/ogg',
+    ogv: 'video/ogg',
+    otf: 'font/otf',
+    pdf: 'application/pdf',
+    png: 'image/png',
+    svg: 'image/svg+xml',
+    ttc: 'font/collection',
+    ttf: 'font/ttf',
+    vtt: 'text/vtt',
+    wav: 'audio/wave',
+    webm: 'video/webm',
+    webmanifest: 'application/manifest+json',
+    webp: 'image/webp',
+    woff: 'font/woff',
+    woff2: 'font/woff2',
+}
+
+/**
+ * Determine the type of a resource from its first bytes, or else from the given hints.
+ * @param {Uint8Array} bytes - the start of the resource (the first 512 bytes suffice).
+ * @param {Object} [hints]
+ * @param {string} [hints.subresourceType] - what the resource is used for, e.g. 'style'.
+ * @param {string} [hints.url] - the URL of the resource, whose file extension may hint at its type.
+ * @returns {string|undefined} the MIME type, if it could be determined.
+ */
+export default function sniffMimeType(
+    bytes: Uint8Array,
+    hints: { subresourceType?: SubresourceType, url?: UrlString } = {},
+): string | undefined {
+    const binaryType = sniffBinaryMimeType(bytes)
+    if (binaryType !== undefined) return binaryType
+    // (read the bytes as Latin-1 text; good enough to find the ASCII markup)
+    if (svgStart.test(String.fromCharCode(...bytes.subarray(0, 512)))) return 'image/svg+xml'
+    if (looksLikeHtml(bytes)) return 'text/html'
+
+    // Text formats like CSS have no recognisable signature, so we go by the context, and as a last
+    // resort by the file extension.
+    const { subresourceType, url } = hints
+    const contextType = subresourceType && typeByContext[subresourceType]
+    if (contextType) return contextType
+    const extension = url?.split(/[?#]/)[0].match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase()
+    return extension !== undefined ? typeByExtension[extension] : undefined
+}
+
+/**
+ * Determine the type of a resource from its first bytes, only going by the signatures of binary
+ * formats (images, fonts, audio and video), as these are reliable; unlike the heuristics for
+ * recognising markup like HTML.
+ * @param {Uint8Array} bytes - the start of the resource.
+ * @returns {string|undefined} the MIME type, if a signature matched.
+ */
+export function sniffBinaryMimeType(bytes: Uint8Array): string | undefined {
+    for (const [mimeType, pattern] of [...imageSignatures, ...fontSignatures, ...mediaSignatures]) {
+        if (matchesPattern(bytes, pattern)) return mimeType
+    }
+    const brands = isoMediaFileBrands(bytes)
+    if (brands !== undefined) {
+        const match = isoMediaBrands.find(([, typeBrands]) =>
+            typeBrands.some(brand => brands.includes(brand)))
+        // Any other ISO media file (e.g. with brand 'isom' or 'mp42') we take to be an MP4 video.
+        return match ? match[0] : 'video/mp4'
+    }
+    return undefined
+}
+
+/**
+ * Tell whether the bytes are the start of a file in the ISO base media file format (e.g. MP4,
+ * AVIF or HEIC), whose type is only known by the brands it lists.
+ * @param {Uint8Array} bytes - the start of the resource.
+ * @returns {boolean}
+ */
+export function isIsoMediaFile(bytes: Uint8Array): boolean {
+    return isoMediaFileBrands(bytes) !== undefined
+}
+
+// Read the major and compatible brands from the 'ftyp' box at the start of an ISO base media file;
+// returns undefined if there is no such box.
+// See https://mimesniff.spec.whatwg.org/#signature-for-mp4
+function isoMediaFileBrands(bytes: Uint8Array): string[] | undefined {
+    if (bytes.length < 12 || !matchesPattern(bytes, '????ftyp')) return undefined
+    const boxSize = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0
+    const end = Math.min(boxSize, bytes.length)
+    const brandAt = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4))
+    // The major brand, followed by a version number, then the compatible brands.
+    const brands = [brandAt(8)]
+    for (let offset = 16; offset + 4 <= end; offset += 4) {
+        brands.push(brandAt(offset))
+    }
+    return brands
+}
+
+function matchesPattern(bytes: Uint8Array, pattern: string): boolean {
+    if (bytes.length < pattern.length) return false
+    for (let i = 0; i < pattern.length; i++) {
+        if (pattern[i] !== '?' && bytes[i] !== pattern.charCodeAt(i)) return false
+    }
+    return true
+}
+
+function looksLikeHtml(bytes: Uint8Array): boolean {
+    // Skip leading whitespace.
+    let start = 0
+    while ([0x09, 0x0A, 0x0C, 0x0D, 0x20].includes(bytes[start])) start++
+    return htmlPrefixes.some(prefix => {
+        const end = start + prefix.length
+        // The tag must end there (e.g. '<B' should not match '<BLOCKQUOTE').
+        if (bytes[end] !== 0x20 && bytes[end] !== 0x3E) return false
+        for (let i = 0; i < prefix.length; i++) {
+            // (compare case-insensitively, by uppercasing any ASCII letters)
+            const byte = bytes[start + i]
+            const uppercased = byte >= 0x61 && byte <= 0x7A ? byte - 0x20 : byte
+            if (uppercased !== prefix.charCodeAt(i)) return false
+        }
+        return true
+    })
+}
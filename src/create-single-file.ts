@@ -1,8 +1,10 @@
 import setMementoTags from './set-memento-tags'
 import setCharsetDeclaration from './set-charset-declaration'
 import setContentSecurityPolicy from './set-content-security-policy/index'
+import { blobToDataUrl } from './data-urls'
 import { DomResource, Resource, GlobalConfig } from './types'
-import { Link, HtmlAttributeDefinedLink } from './extract-links/types'
+import { Link, HtmlAttributeDefinedLink, SubresourceLink } from './extract-links/types'
+import { SubresourceBlockedError } from './crawl-subresources/errors'
 
 type CreateSingleFileConfig = Pick<GlobalConfig,
     | 'charsetDeclaration'
@@ -10,7 +12,10 @@ type CreateSingleFileConfig = Pick<GlobalConfig,
     | 'keepOriginalAttributes'
     | 'now'
     | 'glob'
->
+> & {
+    // If given, the reason for failing to inline any link's subresource is noted in here.
+    linkErrors?: Map<SubresourceLink, unknown>,
+}
 
 /**
  * Serialises the DOM resource+subresources into a single, self-contained string of HTML.
@@ -42,6 +47,8 @@ export default async function createSingleFile(
         "style-src data: 'unsafe-inline'", // Allow inlined styles.
         "font-src data:", // Allow inlined fonts.
         "frame-src data:", // Allow inlined iframes.
+        "object-src data:", // Allow inlined embeds and objects.
+        "manifest-src data:", // Allow an inlined web app manifest.
     ].join('; ')
     setContentSecurityPolicy(resource.doc, csp)
 
@@ -54,9 +61,28 @@ export default async function createSingleFile(
  * Recursively inlines all subresources as data URLs.
  * @param {Object} resource - the resource object representing the DOM with its subresources.
  * @param {Object} options
+ * @param {Map} [inlining] - the (pending) inlining of each resource, so that subresources shared by
+ * multiple links are processed only once.
  * @returns nothing; the resource will be mutated.
  */
-async function deepInlineSubresources(resource: Resource, config: CreateSingleFileConfig) {
+function deepInlineSubresources(
+    resource: Resource,
+    config: CreateSingleFileConfig,
+    inlining: Map<Resource, Promise<void>> = new Map(),
+): Promise<void> {
+    let inliningThisResource = inlining.get(resource)
+    if (!inliningThisResource) {
+        inliningThisResource = inlineSubresources(resource, config, inlining)
+        inlining.set(resource, inliningThisResource)
+    }
+    return inliningThisResource
+}
+
+async function inlineSubresources(
+    resource: Resource,
+    config: CreateSingleFileConfig,
+    inlining: Map<Resource, Promise<void>>,
+) {
     await Promise.allSettled(
         (resource.links as Link[]).map(async link => {
             if (!link.isSubresource) {
@@ -64,18 +90,27 @@ async function deepInlineSubresources(resource: Resource, config: CreateSingleFi
                 return
             } else if (!link.resource) {
                 // The link defines a subresource, but we do not have the resource's content.
-                // TODO we may want to do something here. Turn target into about:invalid? For
-                // now, we rely on the content security policy to prevent loading this resource.
+                if (config.linkErrors?.get(link) instanceof SubresourceBlockedError) {
+                    // Make sure a blocked resource (e.g. a tracking pixel) is never loaded.
+                    setLinkTarget(link, 'about:invalid', config)
+                }
+                // Other links are left as they are; the content security policy prevents loading
+                // those resources.
                 return
             }
 
-            // First recurse into the linked subresource, so we start at the tree's leaves.
-            await deepInlineSubresources(link.resource, config)
+            try {
+                // First recurse into the linked subresource, so we start at the tree's leaves.
+                await deepInlineSubresources(link.resource, config, inlining)
 
-            // Convert the (now self-contained) subresource into a data URL.
-            const dataUrl = await blobToDataUrl(link.resource.blob, config)
+                // Convert the (now self-contained) subresource into a data URL.
+                const dataUrl = await blobToDataUrl(link.resource.blob, config)
 
-            setLinkTarget(link, dataUrl, config)
+                setLinkTarget(link, dataUrl, config)
+            } catch (error) {
+                config.linkErrors?.set(link, error)
+                throw error
+            }
         }),
     )
 }
@@ -88,7 +123,8 @@ function setLinkTarget(
     // Optionally, remember the attribute's original value (if applicable).
     // TODO should this be done elsewhere? Perhaps the link.target setter?
     if (isHtmlAttributeDefinedLink(link) && keepOriginalAttributes) {
-        const noteAttribute = `data-original-${link.from.attribute}`
+        // (a namespace prefix, as in xlink:href, is made part of the name: data-original-xlink-href)
+        const noteAttribute = `data-original-${link.from.attribute.replace(':', '-')}`
         // Multiple links may be contained in one attribute (e.g. a srcset); we must act
         // only at the first one, therefore we check for existence of the noteAttribute.
         // XXX This also means that if the document already had 'data-original-...' attributes,
@@ -116,14 +152,3 @@ function isHtmlAttributeDefinedLink(link: Link): link is HtmlAttributeDefinedLin
     return (link as HtmlAttributeDefinedLink).from.element
         && (link as HtmlAttributeDefinedLink).from.attribute
 }
-
-async function blobToDataUrl(blob: Blob, config: Pick<GlobalConfig, 'glob'>): Promise<string> {
-    const binaryString = await new Promise<string>((resolve, reject) => {
-        const reader = new config.glob.FileReader()
-        reader.onload = () => resolve(reader.result as string)
-        reader.onerror = () => reject(reader.error)
-        reader.readAsBinaryString(blob)
-    })
-    const dataUrl = `data:${blob.type};base64,${config.glob.btoa(binaryString)}`
-    return dataUrl
-}
@@ -0,0 +1,33 @@
+import { GlobalConfig } from './types'
+
+/**
+ * Encodes the content and media type of a Blob in a data URL.
+ * @param {Blob} blob
+ * @returns {Promise<string>} dataUrl - a base64-encoded data URL.
+ */
+export async function blobToDataUrl(blob: Blob, config: Pick<GlobalConfig, 'glob'>): Promise<string> {
+    const binaryString = await new Promise<string>((resolve, reject) => {
+        const reader = new config.glob.FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsBinaryString(blob)
+    })
+    const dataUrl = `data:${blob.type};base64,${config.glob.btoa(binaryString)}`
+    return dataUrl
+}
+
+/**
+ * Decodes a data URL into a Blob.
+ * @param {string} dataUrl - a data URL, either base64- or percent-encoded.
+ * @returns {Blob} blob - a Blob with the content and media type given by the data URL.
+ */
+export function dataUrlToBlob(dataUrl: string, config: Pick<GlobalConfig, 'glob'>): Blob {
+    const match = dataUrl.match(/^data:([^,]*?)(;base64)?,([\s\S]*)$/i)
+    if (!match) {
+        throw new Error(`Not a valid data URL: ${dataUrl.slice(0, 50)}`)
+    }
+    const [, type, base64, data] = match
+    const binaryString = base64 ? config.glob.atob(data) : unescape(data)
+    const bytes = Uint8Array.from(binaryString, character => character.charCodeAt(0))
+    return new config.glob.Blob([bytes], { type })
+}
@@ -45,6 +45,20 @@ test('allResourcesInTree', () => {
     expect(urls).toEqual(['abs:a', 'abs:aa', 'abs:aaa', 'abs:ab'])
 })
 
+test('allResourcesInTree visits shared subresources once', () => {
+    const sharedResource = { url: 'abs:shared', links: [] }
+    const resource = {
+        url: 'abs:a',
+        links: [
+            { target: 'shared', isSubresource: true, resource: sharedResource },
+            { target: 'shared', isSubresource: true, resource: sharedResource },
+        ],
+    }
+    const urls = Array.from(allResourcesInTree(resource as Resource)).map(resource => resource.url)
+
+    expect(urls).toEqual(['abs:a', 'abs:shared'])
+})
+
 describe('makeLinksAbsolute', () => {
     test('makes links to other resources (or itself) absolute', () => {
         makeLinksAbsolute(testResource)
@@ -1,16 +1,28 @@
 import makeDomStatic from './make-dom-static/index'
+import { allResourcesInTree } from './resource-tree'
 import { DomResource, Resource, GlobalConfig } from './types'
+import { SubresourceLink, HtmlAttributeDefinedLink } from './extract-links/types'
+import { SubresourceBlockedError } from './crawl-subresources/errors'
 
 /**
  * "Dry" the resource+subresources to make them static and context-free.
  * @param {Object} rootResource - the resource object including its subresources.
+ * @param {boolean} [config.removeBlockedFrames=false] - whether to remove iframes whose document
+ * was blocked from the DOM (which requires config.linkErrors to tell which ones were blocked).
+ * @param {Map} [config.linkErrors] - the reason for leaving any link without a resource.
  * @returns nothing; the resource will be mutated.
  */
 export default function dryResources(
     rootResource: DomResource,
-    config: Pick<GlobalConfig, 'glob'>,
+    config: Pick<GlobalConfig, 'glob' | 'removeBlockedFrames'> & {
+        linkErrors?: Map<SubresourceLink, unknown>,
+    },
 ) {
     for (const resource of allResourcesInTree(rootResource)) {
+        if (config.removeBlockedFrames) {
+            removeBlockedFrames(resource, config)
+        }
+
         // Make all (possibly relative) URLs absolute.
         makeLinksAbsolute(resource)
 
@@ -21,14 +33,19 @@ export default function dryResources(
     }
 }
 
-// A depth-first iterator through the tree of resource+subresources
-function* allResourcesInTree(resource: Resource): Iterable<Resource> {
-    yield resource
-    for (const link of resource.links) {
-        if (link.isSubresource && link.resource) {
-            yield* allResourcesInTree(link.resource)
+// Remove iframe elements whose document was blocked (e.g. ads), rather than leaving an empty box.
+function removeBlockedFrames(
+    resource: Resource,
+    config: { linkErrors?: Map<SubresourceLink, unknown> },
+) {
+    resource.links.forEach(link => {
+        if (!link.isSubresource || link.subresourceType !== 'document') return
+        if (!(config.linkErrors?.get(link) instanceof SubresourceBlockedError)) return
+        const element = (link as HtmlAttributeDefinedLink).from.element as Element | undefined
+        if (element?.localName === 'iframe') {
+            element.remove()
         }
-    }
+    })
 }
 
 // Make links absolute. Except within-document links: keep/make those relative (e.g. href="#top").
@@ -1,3 +1,4 @@
+import { shadowRootContents } from '../shadow-dom'
 import getBaseUrl from './get-base-url'
 import { syncingParsedView } from './parse-tools'
 import { extractLinksFromCssSynced } from './from-css'
@@ -24,20 +25,44 @@ export function extractLinksFromDom(doc: Document, {
         : undefined // No override; functions will read the correct value from <node>.baseURI.
 
     const rootElement = doc.documentElement // = the <html> element.
-    const links = [
-        ...extractLinksFromAttributes({ rootElement, baseUrl, docUrl }),
-        ...extractLinksFromStyleAttributes({ rootElement, baseUrl }),
-        ...extractLinksFromStyleTags({ rootElement, baseUrl }),
-    ]
+    const links = extractLinksFromSubtree({ rootNode: rootElement, baseUrl, docUrl })
+
+    // The content of declarative shadow roots (<template shadowrootmode="...">) is not part of the
+    // document tree, so we extract their links separately. Their nodes do not know the document's
+    // URL, so we always pass it explicitly.
+    for (const rootNode of shadowRootContents(rootElement)) {
+        links.push(...extractLinksFromSubtree({
+            rootNode,
+            baseUrl: baseUrl !== undefined ? baseUrl : getBaseUrl(doc),
+            docUrl: docUrl !== undefined ? docUrl : doc.URL,
+        }))
+    }
+
     return links
 }
 
+function extractLinksFromSubtree({
+    rootNode,
+    baseUrl,
+    docUrl,
+}: {
+    rootNode: ParentNode,
+    baseUrl?: UrlString,
+    docUrl?: UrlString,
+}): HtmlLink[] {
+    return [
+        ...extractLinksFromAttributes({ rootNode, baseUrl, docUrl }),
+        ...extractLinksFromStyleAttributes({ rootNode, baseUrl }),
+        ...extractLinksFromStyleTags({ rootNode, baseUrl }),
+    ]
+}
+
 function extractLinksFromAttributes({
-    rootElement,
+    rootNode,
     baseUrl,
     docUrl,
 }: {
-    rootElement: Element,
+    rootNode: ParentNode,
     baseUrl?: UrlString,
     docUrl?: UrlString,
 }): HtmlLink[] {
@@ -45,10 +70,15 @@ function extractLinksFromAttributes({
     // Note the 'style' attribute is handled separately, in extractLinksFromStyleAttributes below.
     const links = flatMap<AttributeInfo,HtmlLink>(Object.values(urlAttributes), attributeInfo => {
         const { attribute, elements: elementNames } = attributeInfo
+        // A namespaced attribute (e.g. xlink:href) cannot be selected by its qualified name, so for
+        // those we check for the attribute after selecting the elements.
+        const isNamespaced = attribute.includes(':')
         const selector = elementNames
-            .map(name => `${name}[${attribute}]`) // Only find elements having the attribute set.
+            // Only find elements having the attribute set.
+            .map(name => isNamespaced ? name : `${name}[${attribute}]`)
             .join(', ')
-        const elements = Array.from(rootElement.querySelectorAll(selector))
+        const elements = Array.from(rootNode.querySelectorAll(selector))
+            .filter(element => !isNamespaced || element.hasAttribute(attribute))
         const links = flatMap(elements, element =>
             linksInAttribute({ element, attributeInfo, baseUrl, docUrl })
         )
@@ -105,15 +135,15 @@ function linksInAttribute({
 }
 
 function extractLinksFromStyleAttributes({
-    rootElement,
+    rootNode,
     baseUrl,
 }: {
-    rootElement: Element,
+    rootNode: ParentNode,
     baseUrl?: UrlString,
 }): HtmlLink[] {
     // TODO try using element.style instead of parsing the attribute value ourselves.
     const querySelector = '*[style]'
-    const elements = Array.from(rootElement.querySelectorAll(querySelector))
+    const elements = Array.from(rootNode.querySelectorAll(querySelector))
     const links = flatMap<Element, HtmlLink>(elements, element => {
         // Extract the links from the CSS using a live&editable view on the attribute value.
         const cssLinks = extractLinksFromCssSynced({
@@ -144,14 +174,14 @@ function extractLinksFromStyleAttributes({
 }
 
 function extractLinksFromStyleTags({
-    rootElement,
+    rootNode,
     baseUrl,
 }: {
-    rootElement: Element,
+    rootNode: ParentNode,
     baseUrl?: UrlString,
 }): HtmlLink[] {
     const querySelector = 'style[type="text/css" i], style:not([type])'
-    const elements = Array.from(rootElement.querySelectorAll(querySelector))
+    const elements = Array.from(rootNode.querySelectorAll(querySelector))
 
     const links = flatMap<Element, HtmlLink>(elements, element => {
         // Extract the links from the CSS using a live&editable view on the content.
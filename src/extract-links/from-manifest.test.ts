@@ -0,0 +1,63 @@
+import { extractLinksFromManifest } from './from-manifest'
+
+const exampleManifest = () => ({
+    name: 'Example app',
+    start_url: '/app/?source=manifest',
+    scope: '/app/',
+    icons: [
+        { src: 'icons/192.png', sizes: '192x192', type: 'image/png' },
+        { src: 'https://cdn.example.org/icon.svg', sizes: 'any' },
+    ],
+    screenshots: [
+        { src: 'screenshot.jpg', sizes: '1280x720' },
+    ],
+    shortcuts: [
+        { name: 'Inbox', url: 'inbox', icons: [{ src: 'icons/inbox.png' }] },
+    ],
+})
+
+describe('extractLinksFromManifest', () => {
+    test('should find all URLs in a typical example', () => {
+        const manifestUrl = 'https://example.com/manifest.json'
+        const links = extractLinksFromManifest(exampleManifest(), manifestUrl)
+
+        expect(links.map(link => [link.absoluteTarget, link.subresourceType])).toEqual([
+            ['https://example.com/icons/192.png', 'image'],
+            ['https://cdn.example.org/icon.svg', 'image'],
+            ['https://example.com/screenshot.jpg', 'image'],
+            ['https://example.com/icons/inbox.png', 'image'],
+            ['https://example.com/app/?source=manifest', undefined],
+            ['https://example.com/app/', undefined],
+            ['https://example.com/inbox', undefined],
+        ])
+        expect(links.map(link => link.isSubresource))
+            .toEqual([true, true, true, true, false, false, false])
+    })
+
+    test('should modify the manifest when a link target is changed', () => {
+        const manifest = exampleManifest()
+        const links = extractLinksFromManifest(manifest, 'https://example.com/manifest.json')
+
+        links[0].target = 'data:image/png;base64,abc'
+        links[4].target = 'https://example.com/app/'
+
+        expect(manifest.icons[0]).toEqual(
+            { src: 'data:image/png;base64,abc', sizes: '192x192', type: 'image/png' },
+        )
+        expect(manifest.start_url).toEqual('https://example.com/app/')
+        expect(links[0].from).toEqual({ object: manifest.icons[0], property: 'src' })
+    })
+
+    test('should ignore members that are of the wrong type', () => {
+        const manifest = {
+            start_url: 42,
+            icons: { src: 'not-in-an-array.png' },
+            screenshots: [null, 'screenshot.png', { src: ['not-a-string.png'] }],
+            shortcuts: [{ icons: 'nope.png' }],
+        }
+        expect(extractLinksFromManifest(manifest, 'https://example.com/manifest.json')).toEqual([])
+        expect(extractLinksFromManifest(['icon.png'], 'https://example.com/manifest.json'))
+            .toEqual([])
+        expect(extractLinksFromManifest(null, 'https://example.com/manifest.json')).toEqual([])
+    })
+})
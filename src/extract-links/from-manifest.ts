@@ -0,0 +1,74 @@
+import tryParseUrl from './try-parse-url'
+import { ManifestLink, ManifestImageLink, ManifestNonSubresourceLink, UrlString } from './types'
+
+type JsonObject = { [key: string]: unknown }
+
+/**
+ * Extract links from a web app manifest.
+ * @param {Object} manifest - the parsed manifest, as produced by JSON.parse()
+ * @param {string} baseUrl - the absolute URL for interpreting any relative URLs in the manifest,
+ * i.e. the URL of the manifest itself.
+ * @returns {Object[]} The extracted links. Each link provides a live, editable view on one URL
+ * inside the manifest object.
+ */
+export function extractLinksFromManifest(manifest: unknown, baseUrl: UrlString): ManifestLink[] {
+    const links: ManifestLink[] = []
+    if (!isObject(manifest)) return links
+    const shortcuts = objectsInArray(manifest.shortcuts)
+
+    // The images: icons, screenshots, and the icons of shortcuts.
+    const images = [
+        ...objectsInArray(manifest.icons),
+        ...objectsInArray(manifest.screenshots),
+        ...shortcuts.reduce<JsonObject[]>(
+            (icons, shortcut) => [...icons, ...objectsInArray(shortcut.icons)],
+            [],
+        ),
+    ]
+    for (const image of images) {
+        if (typeof image.src !== 'string') continue
+        const link: ManifestImageLink = {
+            get target() { return image.src as string },
+            set target(newUrl) { image.src = newUrl },
+            get absoluteTarget() {
+                return tryParseUrl(this.target, baseUrl)
+            },
+            get isSubresource() { return true as true },
+            get subresourceType() { return 'image' as 'image' },
+            get from() { return { object: image, property: 'src' } },
+        }
+        links.push(link)
+    }
+
+    // The pages of the web app itself are not subresources, but we extract them so that e.g. they
+    // can be made absolute.
+    const pages: Array<[JsonObject, string]> = [
+        [manifest, 'start_url'],
+        [manifest, 'scope'],
+        ...shortcuts.map((shortcut): [JsonObject, string] => [shortcut, 'url']),
+    ]
+    for (const [object, property] of pages) {
+        if (typeof object[property] !== 'string') continue
+        const link: ManifestNonSubresourceLink = {
+            get target() { return object[property] as string },
+            set target(newUrl) { object[property] = newUrl },
+            get absoluteTarget() {
+                return tryParseUrl(this.target, baseUrl)
+            },
+            get isSubresource() { return false as false },
+            get subresourceType() { return undefined },
+            get from() { return { object, property } },
+        }
+        links.push(link)
+    }
+
+    return links
+}
+
+function isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function objectsInArray(value: unknown): JsonObject[] {
+    return Array.isArray(value) ? value.filter(isObject) : []
+}
@@ -1,2 +1,3 @@
 export { extractLinksFromCss, extractLinksFromCssSynced } from './from-css'
 export { extractLinksFromDom } from './from-dom'
+export { extractLinksFromManifest } from './from-manifest'
@@ -1,5 +1,5 @@
 import { FrameElement } from '../types/util'
-import { Resource, DomResource } from '../types/resource' // TODO Remove need for this (recursive) import
+import { Resource, DomResource, ManifestResource } from '../types/resource' // TODO Remove need for this (recursive) import
 import { SubresourceType } from './url-attributes/types'
 
 // This alias is used to explicitly state which strings are guaranteed/presumed to be absolute URLs.
@@ -71,6 +71,12 @@ export interface CssAnchor extends Anchor {
     range?: [number, number]; // optional because not yet implemented
 }
 
+export interface ManifestAnchor extends Anchor {
+    // The JSON object containing the URL, and the name of its property (e.g. an icon, and 'src').
+    object: { [key: string]: unknown };
+    property: string;
+}
+
 
 // A link defined in an HTML document.
 export type HtmlLink = HtmlNonSubresourceLink | HtmlSubresourceLink
@@ -88,6 +94,7 @@ export type HtmlSubresourceLink =
     | HtmlEmbedLink
     | HtmlFontLink
     | HtmlImageLink
+    | HtmlManifestLink
     | HtmlObjectLink
     | HtmlScriptLink
     | HtmlStyleLink
@@ -102,7 +109,10 @@ export interface HtmlUntypedLink extends HtmlSubresourceLink_base {
 
 export interface HtmlAudioLink extends HtmlSubresourceLink_base {
     readonly subresourceType: "audio";
-    readonly from: AttributeAnchor<HTMLAudioElement | HTMLSourceElement, "src">;
+    readonly from:
+        | AttributeAnchor<HTMLAudioElement | HTMLSourceElement, "src">
+        | AttributeAnchor<HTMLLinkElement, "href">
+        ;
 }
 
 export interface HtmlDocumentLink extends HtmlSubresourceLink_base {
@@ -113,12 +123,15 @@ export interface HtmlDocumentLink extends HtmlSubresourceLink_base {
 
 export interface HtmlEmbedLink extends HtmlSubresourceLink_base {
     readonly subresourceType: "embed";
-    readonly from: AttributeAnchor<HTMLEmbedElement, "embed">;
+    readonly from: AttributeAnchor<HTMLEmbedElement, "src">;
 }
 
 export interface HtmlFontLink extends HtmlSubresourceLink_base {
     readonly subresourceType: "font";
-    readonly from: TextContentAnchor<HTMLStyleElement>;
+    readonly from:
+        | TextContentAnchor<HTMLStyleElement>
+        | AttributeAnchor<HTMLLinkElement, "href">
+        ;
 }
 
 export interface HtmlImageLink extends HtmlSubresourceLink_base {
@@ -129,11 +142,18 @@ export interface HtmlImageLink extends HtmlSubresourceLink_base {
         | AttributeAnchor<HTMLImageElement | HTMLInputElement, "src">
         | AttributeAnchor<HTMLVideoElement, "poster">
         | AttributeAnchor<HTMLImageElement | HTMLSourceElement, "srcset">
+        | AttributeAnchor<HTMLLinkElement, "imagesrcset">
         | TextContentAnchor<HTMLStyleElement>
         | AttributeAnchor<HTMLElement, "style">
         ;
 }
 
+export interface HtmlManifestLink extends HtmlSubresourceLink_base {
+    readonly subresourceType: "manifest";
+    readonly from: AttributeAnchor<HTMLLinkElement, "href">;
+    resource?: ManifestResource;
+}
+
 export interface HtmlObjectLink extends HtmlSubresourceLink_base {
     readonly subresourceType: "object";
     readonly from: AttributeAnchor<HTMLObjectElement, "data">;
@@ -154,7 +174,10 @@ export interface HtmlStyleLink extends HtmlSubresourceLink_base {
 
 export interface HtmlTrackLink extends HtmlSubresourceLink_base {
     readonly subresourceType: "track";
-    readonly from: AttributeAnchor<HTMLTrackElement, "src">;
+    readonly from:
+        | AttributeAnchor<HTMLTrackElement, "src">
+        | AttributeAnchor<HTMLLinkElement, "href">
+        ;
 }
 
 export interface HtmlVideoLink extends HtmlSubresourceLink_base {
@@ -162,6 +185,7 @@ export interface HtmlVideoLink extends HtmlSubresourceLink_base {
     readonly from:
         | AttributeAnchor<HTMLSourceElement, "src">
         | AttributeAnchor<HTMLVideoElement, "src">
+        | AttributeAnchor<HTMLLinkElement, "href">
         ;
 }
 
@@ -189,3 +213,20 @@ export interface CssImageLink extends CssSubresourceLink_base {
 export interface CssStyleLink extends CssSubresourceLink_base {
     readonly subresourceType: "style";
 }
+
+
+export type ManifestLink = ManifestNonSubresourceLink | ManifestImageLink
+
+interface ManifestLink_base extends Link_base {
+    readonly from: ManifestAnchor;
+}
+
+// The manifest's start_url, scope, and the urls of its shortcuts.
+export type ManifestNonSubresourceLink = ManifestLink_base & NonSubresourceLink
+
+type ManifestSubresourceLink_base = ManifestLink_base & SubresourceLink
+
+// The images of the manifest's icons, screenshots, and icons of its shortcuts.
+export interface ManifestImageLink extends ManifestSubresourceLink_base {
+    readonly subresourceType: "image";
+}
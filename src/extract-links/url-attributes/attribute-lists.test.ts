@@ -1,4 +1,5 @@
 import { html40, html52, whatwg } from './attribute-lists'
+import { extractLinksFromDom } from '../from-dom'
 
 describe('default parser', () => {
     test('should strip whitespace', () => {
@@ -105,3 +106,40 @@ describe('html52.manifest.makeAbsolute', () => {
         expect(result).toEqual('https://domain.example/path/manifest.appcache')
     })
 })
+
+describe('link relations', () => {
+    // Extract the links of the given <link> element, through the merged attribute lists.
+    const linksOf = (html: string) => {
+        const doc = new DOMParser().parseFromString(`<html><head>${html}</head></html>`, 'text/html')
+        return extractLinksFromDom(doc, { docUrl: 'https://example.com/' })
+            .map(link => [link.target, link.subresourceType])
+    }
+
+    test('should treat icons, including touch icons, as image subresources', () => {
+        const rels = ['icon', 'Apple-Touch-Icon', 'apple-touch-icon-precomposed', 'mask-icon']
+        for (const rel of rels) {
+            expect(linksOf(`<link rel="${rel}" href="icon.png">`))
+                .toEqual([['icon.png', 'image']])
+        }
+    })
+
+    test('should treat a web app manifest as a manifest subresource', () => {
+        expect(linksOf('<link rel="manifest" href="app.webmanifest">'))
+            .toEqual([['app.webmanifest', 'manifest']])
+    })
+
+    test('should take the subresource type of preloads from their as attribute', () => {
+        expect(linksOf('<link rel="preload" as="font" href="font.woff2">'))
+            .toEqual([['font.woff2', 'font']])
+        expect(linksOf('<link rel="preload" as="image" href="a.png" imagesrcset="b.png 2x">'))
+            .toEqual([['a.png', 'image'], ['b.png', 'image']])
+        // Scripts are not considered subresources (as they are removed anyway).
+        expect(linksOf('<link rel="preload" as="script" href="app.js">'))
+            .toEqual([['app.js', undefined]])
+    })
+
+    test('should treat other links as mere hyperlinks', () => {
+        expect(linksOf('<link rel="alternate" href="feed.xml">'))
+            .toEqual([['feed.xml', undefined]])
+    })
+})
@@ -3,7 +3,7 @@
 import tryParseUrl from '../try-parse-url'
 import { splitByWhitespace, splitByComma, splitByCommaPickFirstTokens } from './split-token-list'
 import { omit } from './util'
-import { AttributeInfo, AttributeInfoDict } from './types'
+import { AttributeInfo, AttributeInfoDict, SubresourceType } from './types'
 
 // Default properties for the attributes listed below.
 const defaultItem: Omit<AttributeInfo, 'attribute'> = {
@@ -46,6 +46,35 @@ const defaultItem: Omit<AttributeInfo, 'attribute'> = {
     },
 }
 
+// The link relations whose <link href="..."> defines a subresource (see the link_*_href items). Any
+// other <link href="..."> merely points to another resource. Note that these are excluded from the
+// generic href in every list, as the lists are merged (in ./index.ts) by combining their selectors.
+const subresourceLinkRelations = [
+    'icon',
+    'stylesheet',
+    'apple-touch-icon',
+    'apple-touch-icon-precomposed',
+    'apple-touch-startup-image',
+    'mask-icon',
+    'manifest',
+    'preload',
+]
+
+// The types of preloaded resources (i.e. values of the 'as' attribute of <link rel=preload>) that
+// we consider subresources; other preloads (e.g. of scripts) are treated as mere links.
+const preloadedSubresourceTypes: SubresourceType[] = [
+    'audio', 'font', 'image', 'style', 'track', 'video',
+]
+
+// Helper for <link rel=preload>, whose 'as' attribute tells the type of the preloaded resource.
+const preloadItem = (subresourceType: SubresourceType): AttributeInfo => ({
+    ...defaultItem,
+    attribute: 'href',
+    elements: [`link[rel~=preload i][as=${subresourceType} i]`],
+    isSubresource: true,
+    subresourceType,
+})
+
 // Helper for URL attributes that are defined to be relative to the element's 'codebase' attribute.
 const makeAbsoluteUsingCodebase: AttributeInfo['makeAbsolute'] = (url, element, ...etc) => {
     // Read the value of the codebase attribute, and turn it into an absolute URL.
@@ -127,7 +156,12 @@ export const html40: AttributeInfoDict = {
     href: {
         ...defaultItem,
         attribute: 'href',
-        elements: ['a', 'area', 'base', 'link:not([rel~=icon i]):not([rel~=stylesheet i])'],
+        elements: [
+            'a',
+            'area',
+            'base',
+            'link' + subresourceLinkRelations.map(rel => `:not([rel~=${rel} i])`).join(''),
+        ],
         // Note: some links are resources, see below.
     },
     link_icon_href: {
@@ -319,6 +353,47 @@ export const whatwg: AttributeInfoDict = {
     // Includes all of HTML 5.2 except longdesc
     ...omit(['longdesc'])(html52),
 
+    // Besides the standard 'icon', these relations are widely used for icons on (mobile) home
+    // screens and the like. See https://developer.apple.com/library/archive/documentation/AppleApplications/Reference/SafariWebContent/ConfiguringWebApplications/ConfiguringWebApplications.html
+    link_icon_href: {
+        ...html52.link_icon_href,
+        elements: [
+            'link[rel~=icon i]',
+            'link[rel~=apple-touch-icon i]',
+            'link[rel~=apple-touch-icon-precomposed i]',
+            'link[rel~=apple-touch-startup-image i]',
+            'link[rel~=mask-icon i]',
+        ],
+    },
+    link_manifest_href: {
+        ...defaultItem,
+        attribute: 'href',
+        elements: ['link[rel~=manifest i]'],
+        isSubresource: true,
+        subresourceType: 'manifest',
+        // See https://www.w3.org/TR/appmanifest/#using-a-link-element-to-link-to-a-manifest
+    },
+    // See https://html.spec.whatwg.org/multipage/links.html#link-type-preload
+    link_preload_audio_href: preloadItem('audio'),
+    link_preload_font_href: preloadItem('font'),
+    link_preload_image_href: preloadItem('image'),
+    link_preload_style_href: preloadItem('style'),
+    link_preload_track_href: preloadItem('track'),
+    link_preload_video_href: preloadItem('video'),
+    link_preload_href: {
+        ...defaultItem,
+        attribute: 'href',
+        elements: ['link[rel~=preload i]'
+            + preloadedSubresourceTypes.map(type => `:not([as=${type} i])`).join('')],
+    },
+    link_preload_imagesrcset: {
+        ...defaultItem,
+        attribute: 'imagesrcset',
+        elements: ['link[rel~=preload i][as=image i]'],
+        parse: splitByCommaPickFirstTokens,
+        isSubresource: true,
+        subresourceType: 'image',
+    },
     itemprop: {
         // Microdata's itemprop can contain absolute URLs, used as identifiers.
         // See https://html.spec.whatwg.org/multipage/microdata.html#names:-the-itemprop-attribute
@@ -352,17 +427,45 @@ export const whatwg: AttributeInfoDict = {
     },
 }
 
+// SVG 2, as of 2018-10-04
+// https://www.w3.org/TR/SVG2/attindex.html#RegularAttributes
+// SVG 1.1 used xlink:href instead of href; this is still widely used and supported, so we list both.
+// Note that the <a> element's href is already covered by the HTML lists above.
+export const svg: AttributeInfoDict = {
+    svg_image_href: {
+        ...defaultItem,
+        attribute: 'href',
+        elements: ['image', 'feImage'],
+        isSubresource: true,
+        subresourceType: 'image',
+        // See https://www.w3.org/TR/SVG2/embedded.html#ImageElementHrefAttribute
+    },
+    svg_image_xlink_href: {
+        ...defaultItem,
+        attribute: 'xlink:href',
+        elements: ['image', 'feImage'],
+        isSubresource: true,
+        subresourceType: 'image',
+    },
+    svg_a_xlink_href: {
+        ...defaultItem,
+        attribute: 'xlink:href',
+        elements: ['a'],
+    },
+}
+
 // Notes to self about link types that declare external resources.
 // Regarding link types in the WHATWG spec:
-//   The preloading-related links might be nice to archive if we start supporting scripts: we
-//   could hardcode their URL:value combination into an injected fetch replacement function.
-//   Preloading relation types: modulepreload, preconnect, prefetch, preload, prerender
+//   Preloads of stylesheets, fonts, images and media are listed above; preloads of scripts might
+//   be nice to archive if we start supporting scripts: we could hardcode their URL:value
+//   combination into an injected fetch replacement function.
+//   Other preloading relation types: modulepreload, preconnect, prefetch, prerender
 //   Another type: dns-prefetch; Seems even further off, does not actually load any resource.
 //   Also, rel=pingback is listed as an external resource link. No idea why.
 //   See https://html.spec.whatwg.org/multipage/links.html#linkTypes
 // Other:
 //   A few other possibly interesting link relation types to external resources.
 //   (hand-picked from <http://microformats.org/wiki/index.php?title=existing-rel-values&oldid=66721>)
-//   apple-touch-icon / apple-touch-icon-precomposed / apple-touch-startup-image
+//   apple-touch-icon / apple-touch-icon-precomposed / apple-touch-startup-image (listed above)
 //   enclosure (similar to prefetch etc?)
 //   pgpkey / publickey
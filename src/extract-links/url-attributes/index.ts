@@ -1,4 +1,4 @@
-import { html40, html52, whatwg } from './attribute-lists'
+import { html40, html52, whatwg, svg } from './attribute-lists'
 import { mergeWith, uniq } from './util'
 import { AttributeInfo, AttributeInfoDict } from './types'
 
@@ -12,5 +12,5 @@ const mergeAttributeInfos: (info1: AttributeInfo, info2: AttributeInfo) => Attri
 
 // Export the union of all attributes.
 const allAttributes: AttributeInfoDict =
-    mergeWith<AttributeInfo, AttributeInfoDict>(mergeAttributeInfos)(whatwg, html52, html40)
+    mergeWith<AttributeInfo, AttributeInfoDict>(mergeAttributeInfos)(whatwg, html52, html40, svg)
 export default allAttributes
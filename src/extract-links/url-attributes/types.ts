@@ -1,7 +1,7 @@
 import { UrlString } from '../types'
 
-export type SubresourceType = 'audio' | 'document' | 'embed' | 'font' | 'image' | 'object'
-    | 'script' | 'style' | 'track' | 'video'
+export type SubresourceType = 'audio' | 'document' | 'embed' | 'font' | 'image' | 'manifest'
+    | 'object' | 'script' | 'style' | 'track' | 'video'
 
 export interface AttributeInfo {
     readonly attribute: string,
@@ -1,11 +1,47 @@
 /* global window */
 import { flatOptions } from './package'
 
-import captureDom from './capture-dom'
-import crawlSubresourcesOfDom from './crawl-subresources'
+import captureDom from './capture-dom/index'
+import crawlSubresourcesOfDom from './crawl-subresources/index'
+import applySizeBudget from './crawl-subresources/size-budget'
+import createMemoryCache from './crawl-subresources/memory-cache'
 import dryResources from './dry-resources'
 import createSingleFile from './create-single-file'
-import { GlobalConfig } from './types/index'
+import { serializeDomResource, rehydrateDomResource } from './serialize-resource'
+import startReport from './report'
+import reportProgress from './report-progress'
+import { GlobalConfig, FreezeDryReport } from './types/index'
+import { SubresourceLink } from './extract-links/types'
+
+// The individual steps are exported too, to allow running them separately; e.g. to capture the DOM
+// in a content script, and continue processing it in a background script.
+export {
+    captureDom,
+    crawlSubresourcesOfDom,
+    dryResources,
+    createSingleFile,
+    serializeDomResource,
+    rehydrateDomResource,
+    createMemoryCache,
+}
+export type {
+    GlobalConfig,
+    Resource,
+    DomResource,
+    StylesheetResource,
+    ManifestResource,
+    LeafResource,
+    SerializedDomResource,
+    FetchPolicy,
+    FetchPolicies,
+    FetchResourceResult,
+    ResponseMetadata,
+    ResourceCache,
+    CachedResource,
+    FreezeDryProgressEvent,
+    FreezeDryReport,
+    SubresourceReport,
+} from './types/index'
 
 /**
  * Freeze dry an HTML Document
@@ -13,6 +49,9 @@ import { GlobalConfig } from './types/index'
  * @param {Object} [options]
  * @param {number} [options.timeout=Infinity] - Maximum time (in milliseconds) spent on fetching the
  * page's subresources. The resulting HTML will have only succesfully fetched subresources inlined.
+ * Note the time is counted from the start, so it includes any time spent waiting for getDocInFrame.
+ * @param {AbortSignal} [options.signal] - Signal for cancelling the whole operation. When aborted,
+ * any pending fetches are aborted, and the returned promise rejects with an AbortError.
  * @param {string} [options.docUrl] - URL to override doc.URL.
  * @param {string} [options.charsetDeclaration='utf-8'] - The value put into the <meta charset="…">
  * element of the snapshot. If you will store/serve the returned string using an encoding other than
@@ -27,6 +66,65 @@ import { GlobalConfig } from './types/index'
  * @param {Date} [options.now] - Override the snapshot time (only relevant when addMetadata=true).
  * @param {Function} [options.fetchResource] - Custom function for fetching resources; should be
  * API-compatible with the global fetch(), but may also return { blob, url } instead of a Response.
+ * A blob without a type is given the type sniffed from its content. The object may also provide the
+ * response's status, headers and redirectChain, which are recorded in the resource's metadata.
+ * @param {Function} [options.getRequestInit] - Custom function for determining the request options
+ * (as passed to fetch()) for each subresource; e.g. to send credentials or custom headers. It is
+ * given an object { link, subresourceType, parentResource, defaultRequestInit }, and the options it
+ * returns override the defaults, which send credentials to the same origin only, and set the
+ * referrer to the URL of the parent resource (which fetch() replaces by the URL of the page calling
+ * it, unless both are of the same origin).
+ * @param {Object} [options.fetchPolicies] - Timeout and retry policies for fetching subresources,
+ * per subresource type (e.g. 'image', 'video'), with 'default' applying to any other type. Each
+ * policy may set `timeout` (per attempt, in milliseconds), `retries`, `retryDelay` (milliseconds
+ * before the first retry, doubled for each next one), `retryStatuses`, `retryOnError`, and
+ * `maxSize` (in bytes; larger subresources are not inlined).
+ * @param {Object} [options.resourceCache] - A cache for subresources, which may be shared across
+ * snapshots (and may persist them, e.g. in IndexedDB); an object with methods get(url) and
+ * put(url, { url, blob, etag, lastModified, expires }), which may return promises. A fresh cached
+ * copy is used instead of fetching; an expired one is revalidated with a conditional request, if
+ * it has an etag or lastModified. A response that does not tell when it expires is kept fresh for
+ * five minutes. createMemoryCache() provides a simple in-memory implementation.
+ * @param {Function} [options.blockSubresource] - Function that decides whether to leave out a
+ * subresource without fetching it, e.g. to block trackers and ads. It is given an object { link,
+ * url, subresourceType, parentResource }, and should return true to block the link. A blocked
+ * link's target is replaced by 'about:invalid', and it is reported as skipped.
+ * @param {string|string[]} [options.blocklist] - Hostnames (blocking their subdomains too) and
+ * URL patterns (using * as wildcard) of subresources to block, one per line or array item. Lines
+ * from a hosts file (e.g. '0.0.0.0 ads.example.com') are accepted too.
+ * @param {boolean} [options.removeBlockedFrames=false] - Whether to remove iframes that are
+ * blocked (by blockSubresource or blocklist) from the snapshot, instead of leaving them empty.
+ * @param {number} [options.maxTotalSize=Infinity] - Size budget (in bytes) for the resulting
+ * snapshot, i.e. including the data URLs of inlined subresources. If it would exceed it,
+ * subresources are left out (i.e. not inlined), least important types first: e.g. videos before
+ * images, images before fonts, and fonts before stylesheets.
+ * @param {number} [options.maxConcurrency=16] - Maximum number of subresources fetched at the same
+ * time. When requests have to wait, stylesheets and fonts go before images, and those before video.
+ * @param {number} [options.maxConcurrencyPerOrigin=6] - Maximum number of subresources fetched at
+ * the same time from the same origin.
+ * @param {number} [options.maxFrameDepth=Infinity] - How deeply nested frames (and content
+ * embedded using <object> or <embed>, which may be a document too) may be to be included. With 1,
+ * frames in the document are included, but not frames inside those; with 0, no frames are
+ * included at all.
+ * @param {number} [options.maxImportDepth=Infinity] - How deeply nested stylesheets imported by
+ * other stylesheets (using @import) may be to be included. With 0, none are included.
+ * @param {Function} [options.onProgress] - Callback that is passed an event object whenever
+ * freeze-drying moves on to its next phase ({ type: 'phase', phase }, with phase being 'capture',
+ * 'crawl', 'dry' or 'compile'), and while crawling, for each subresource URL when it is
+ * 'discovered', 'started' (for each attempt), 'received' some bytes, 'finished' or 'failed'. Any
+ * error it throws is ignored.
+ * @param {Function} [options.getDocInFrame] - Custom function for obtaining the document inside a
+ * frame or iframe element, which may return the document or a promise of it. Defaults to reading
+ * frame.contentDocument. If it returns (or resolves to) null, the frame's document is refetched.
+ * @param {Function} [options.excludeFormInput] - Function that, given a form input element, returns
+ * true if its current value should not be captured. By default, password fields are excluded.
+ * @param {Function} [options.getShadowRoot] - Custom function for obtaining an element's shadow root
+ * (or null if it has none). Defaults to reading element.shadowRoot, which does not give access to
+ * closed shadow roots; a privileged environment (e.g. a browser extension) could provide these.
+ * @param {string} [options.responsiveImages='all'] - Which candidates of responsive images (listed
+ * in srcset attributes and <picture> elements) to fetch and inline: 'all' of them, only the one
+ * 'chosen' by the browser (its currentSrc; the largest if the image has not been loaded), or the
+ * 'largest' one.
  * @param {Window} [options.glob] - Overrides the global window object that is used for accessing
  * global DOM interfaces. Defaults to doc.defaultView or (if that is absent) the global `window`.
  * @returns {string} html - The freeze-dried document as a self-contained, static string of HTML.
@@ -36,14 +134,48 @@ export default async function freezeDry(
         || fail('No document given to freeze-dry'),
     options: Partial<GlobalConfig> = {},
 ): Promise<string> {
+    const { html } = await freezeDryWithReport(doc, options)
+    return html
+}
+
+/**
+ * Freeze dry an HTML Document, like freezeDry does, but also report on each of its subresources.
+ * @param {Document} [doc=window.document] - HTML Document to be freeze-dried. Remains unmodified.
+ * @param {Object} [options] - the same options as for freezeDry.
+ * @returns {Promise<Object>} { html, report } - the freeze-dried document as a string of HTML, and
+ * a report listing every subresource link with its URL, type, outcome ('inlined', 'failed',
+ * 'timed-out' or 'skipped'), the error that prevented inlining it (if any), and its inlined size.
+ */
+export async function freezeDryWithReport(
+    doc: Document = typeof window !== 'undefined' && window.document
+        || fail('No document given to freeze-dry'),
+    options: Partial<GlobalConfig> = {},
+): Promise<{ html: string, report: FreezeDryReport }> {
     const defaultOptions: GlobalConfig = {
         timeout: Infinity,
+        signal: undefined,
         docUrl: undefined,
         charsetDeclaration: 'utf-8',
         addMetadata: true,
         keepOriginalAttributes: true,
         now: new Date(),
         fetchResource: undefined,
+        getRequestInit: undefined,
+        fetchPolicies: undefined,
+        resourceCache: undefined,
+        blockSubresource: undefined,
+        blocklist: undefined,
+        removeBlockedFrames: undefined,
+        maxTotalSize: undefined,
+        maxConcurrency: undefined,
+        maxConcurrencyPerOrigin: undefined,
+        maxFrameDepth: undefined,
+        maxImportDepth: undefined,
+        onProgress: undefined,
+        getDocInFrame: undefined,
+        excludeFormInput: undefined,
+        getShadowRoot: undefined,
+        responsiveImages: undefined,
         glob: options.glob // (not actually a 'default' value; but easiest to typecheck this way)
             || (doc.defaultView as typeof window | null)
             || (typeof window !== 'undefined' ? window : undefined)
@@ -51,34 +183,92 @@ export default async function freezeDry(
     }
     const config: GlobalConfig = flatOptions(options, defaultOptions)
 
-    // Step 1: Capture the DOM (as well as DOMs inside frames).
-    const resource = captureDom(doc, config)
+    // Upon timeout or cancellation by the caller, we abort any pending fetches (on platforms that
+    // support this).
+    const abortController = config.glob.AbortController && new config.glob.AbortController()
+    const abort = () => abortController?.abort()
+    config.signal?.addEventListener('abort', abort)
+    const throwIfAborted = () => {
+        if (config.signal?.aborted) {
+            throw new config.glob.DOMException('Freeze-drying was aborted.', 'AbortError')
+        }
+    }
 
-    // TODO Allow continuing processing elsewhere (background script, worker, nodejs, ...)
+    // Start the clock.
+    let timedOut = false
+    const { withTimeout, stopTimeout } = startTimeout(config, () => {
+        timedOut = true
+        abort()
+    })
+    try {
+        throwIfAborted()
 
-    // Step 2: Fetch subresources, recursively.
-    await withTimeout(config)(crawlSubresourcesOfDom(resource, config))
-    // TODO Upon timeout, abort the pending fetches on platforms that support this.
+        // Step 1: Capture the DOM (as well as DOMs inside frames).
+        reportProgress({ type: 'phase', phase: 'capture' }, config)
+        // If getDocInFrame keeps us waiting until the timeout, we fall back to refetching frames.
+        const resource = await captureDom(doc, { ...config, signal: abortController?.signal })
+        throwIfAborted()
 
-    // Step 3: "Dry" the resources to make them static and context-free.
-    dryResources(resource, config)
+        // Step 2: Fetch subresources, recursively.
+        reportProgress({ type: 'phase', phase: 'crawl' }, config)
+        // We note the reason for any subresource that is left out, for the report.
+        const linkErrors = new Map<SubresourceLink, unknown>()
+        await withTimeout(crawlSubresourcesOfDom(resource, {
+            ...config,
+            signal: abortController?.signal,
+            linkErrors,
+        }))
+        throwIfAborted()
+        // The remaining steps are not subject to the timeout.
+        stopTimeout()
 
-    // Step 4: Compile the resource tree to produce a single, self-contained string of HTML.
-    const html = await createSingleFile(resource, config)
+        // Step 3: "Dry" the resources to make them static and context-free.
+        reportProgress({ type: 'phase', phase: 'dry' }, config)
+        dryResources(resource, { ...config, linkErrors })
 
-    return html
+        // Leave out the least important subresources if they would exceed the size budget.
+        applySizeBudget(resource, { ...config, linkErrors })
+
+        // Step 4: Compile the resource tree to produce a single, self-contained string of HTML.
+        reportProgress({ type: 'phase', phase: 'compile' }, config)
+        const finishReport = startReport(resource)
+        const html = await createSingleFile(resource, { ...config, linkErrors })
+        const report = finishReport(linkErrors, timedOut)
+
+        return { html, report }
+    } finally {
+        // Do not keep any timer running, nor keep listening to a signal that may outlive us.
+        stopTimeout()
+        config.signal?.removeEventListener('abort', abort)
+    }
 }
 
-function withTimeout(config: GlobalConfig): <T>(promise: Promise<T>) => Promise<T | undefined> {
-    if (config.timeout === Infinity)
-        return promise => promise
-    else
-        return promise => Promise.race([
-            promise,
-            new Promise(
-                resolve => config.glob.setTimeout(resolve, config.timeout)
-            ) as Promise<undefined>,
-        ])
+// Starts the timeout, and returns a function that lets a promise resolve early (to undefined) when
+// the timeout expires or when the caller aborts, and a function to stop the timeout. The given
+// onTimeout function is invoked when the timeout expires.
+function startTimeout(config: GlobalConfig, onTimeout: () => void): {
+    withTimeout: <T>(promise: Promise<T>) => Promise<T | undefined>,
+    stopTimeout: () => void,
+} {
+    let stopTimeout = () => {}
+    const deadline = new Promise<undefined>(resolve => {
+        const timer = config.timeout !== Infinity
+            ? config.glob.setTimeout(() => {
+                onTimeout()
+                resolve()
+            }, config.timeout)
+            : undefined
+        const onAbort = () => resolve()
+        config.signal?.addEventListener('abort', onAbort)
+        stopTimeout = () => {
+            if (timer !== undefined) config.glob.clearTimeout(timer)
+            config.signal?.removeEventListener('abort', onAbort)
+        }
+    })
+    return {
+        withTimeout: promise => Promise.race([promise, deadline]),
+        stopTimeout,
+    }
 }
 
 function fail(message: string): never {
@@ -1,4 +1,5 @@
 import removeScripts from './remove-scripts'
+import { shadowRootContents } from '../shadow-dom'
 import { GlobalConfig } from '../types'
 
 /**
@@ -7,18 +8,27 @@ import { GlobalConfig } from '../types'
  * @returns nothing; doc is mutated.
  */
 export default function makeDomStatic(doc: Document, config: Pick<GlobalConfig, 'glob'>) {
+    // Treat the document itself, as well as the content of declarative shadow roots inside it.
+    const rootNodes = [doc.documentElement, ...shadowRootContents(doc.documentElement)]
+    rootNodes.forEach(rootNode => makeSubtreeStatic(rootNode, config))
+}
+
+function makeSubtreeStatic(
+    rootNode: Element | DocumentFragment,
+    config: Pick<GlobalConfig, 'glob'>,
+) {
     // Remove all javascript.
-    removeScripts(doc.documentElement, config)
+    removeScripts(rootNode, config)
 
     // If noscript content was not shown, we do not want it to show in the snapshot either. Also, we
     // capture pages after scripts executed (presumably), so noscript content is likely undesired.
     // TODO We should know whether noscript content was visible, and if so keep it in the doc.
     // TODO Keep noscript content in fetched iframe docs, as scripts have not been executed there?
-    const noscripts = Array.from(doc.querySelectorAll('noscript'))
+    const noscripts = Array.from(rootNode.querySelectorAll('noscript'))
     noscripts.forEach(element => element.parentNode?.removeChild(element))
 
     // Disable editing on editable elements
-    const editableElements = Array.from(doc.querySelectorAll('*[contenteditable]'))
+    const editableElements = Array.from(rootNode.querySelectorAll('*[contenteditable]'))
         .filter((element: Element): element is HTMLElement => element instanceof config.glob.HTMLElement)
     editableElements.forEach(element => {
         element.contentEditable = 'false'
@@ -44,4 +44,23 @@ describe('removeScripts', () => {
 
         expect(rootElement.querySelector('a').href).toEqual('javascript:')
     })
+
+    test('should remove scripts from an SVG document', () => {
+        const parser = new DOMParser()
+        const doc = parser.parseFromString(
+            `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"
+                onload="alert('spam')">
+                <script>alert('spam')</script>
+                <a xlink:href="javascript:alert('spam')"><text>spam</text></a>
+            </svg>`,
+            'image/svg+xml'
+        )
+        const rootElement = doc.documentElement
+
+        removeScripts(rootElement, config)
+
+        expect(rootElement.hasAttribute('onload')).toBe(false)
+        expect(rootElement.getElementsByTagName('script').length).toEqual(0)
+        expect(rootElement.querySelector('a').getAttribute('xlink:href')).toEqual('javascript:')
+    })
 })
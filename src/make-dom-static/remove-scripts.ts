@@ -2,11 +2,11 @@ import { GlobalConfig } from "../types"
 
 /**
  * Tries to remove all kinds of scripts contained in the given rootElement.
- * @param {Element} rootElement
+ * @param {Element|DocumentFragment} rootElement
  * @returns nothing; rootElement is mutated.
  */
 export default function removeScripts(
-    rootElement: Element,
+    rootElement: Element | DocumentFragment,
     config: Pick<GlobalConfig, 'glob'>,
 ) {
     removeScriptElements(rootElement)
@@ -15,14 +15,16 @@ export default function removeScripts(
 }
 
 // Removes all <script> elements in rootElement.
-function removeScriptElements(rootElement: Element) {
+function removeScriptElements(rootElement: Element | DocumentFragment) {
     const scripts = Array.from(rootElement.querySelectorAll('script'))
     scripts.forEach(element => element.parentNode?.removeChild(element))
 }
 
 // Removes event handlers (onclick, onload, etcetera) from rootElement and all elements it contains.
-function removeEventHandlers(rootElement: Element) {
+function removeEventHandlers(rootElement: Element | DocumentFragment) {
     const elements = Array.from(rootElement.querySelectorAll('*'))
+    // The root element itself can have handlers too (think <svg onload="…">).
+    if ('attributes' in rootElement) elements.unshift(rootElement)
     elements.forEach(element => {
         // A crude approach: any attribute starting with 'on' is removed.
         Array.from(element.attributes)
@@ -34,7 +36,10 @@ function removeEventHandlers(rootElement: Element) {
 }
 
 // Disables all links with a 'javascript:' href.
-function removeJavascriptHrefs(rootElement: Element, config: Pick<GlobalConfig, 'glob'>) {
+function removeJavascriptHrefs(
+    rootElement: Element | DocumentFragment,
+    config: Pick<GlobalConfig, 'glob'>,
+) {
     const linkElements = Array.from(rootElement.querySelectorAll('a, area'))
         .filter(element => element instanceof config.glob.HTMLElement) as Array<HTMLAnchorElement | HTMLAreaElement>
     linkElements
@@ -45,4 +50,16 @@ function removeJavascriptHrefs(rootElement: Element, config: Pick<GlobalConfig,
             // should not be resolvable. Keeping the 'javascript:' there, for lack of a better idea.
             element.setAttribute('href', 'javascript:')
         })
+
+    // Links in SVG are no HTMLElements, so we check their attributes ourselves.
+    Array.from(rootElement.querySelectorAll('a'))
+        .filter(element => !(element instanceof config.glob.HTMLElement))
+        .forEach(element => {
+            for (const attribute of ['href', 'xlink:href']) {
+                const value = element.getAttribute(attribute)
+                if (value !== null && /^\s*javascript:/i.test(value)) {
+                    element.setAttribute(attribute, 'javascript:')
+                }
+            }
+        })
 }
@@ -0,0 +1,161 @@
+import { postcss, documentOuterHTML } from './package'
+
+import {
+    extractLinksFromDom,
+    extractLinksFromCss,
+    extractLinksFromManifest,
+} from './extract-links/index'
+import {
+    UrlString,
+    DomResource,
+    StylesheetResource,
+    ManifestResource,
+    ResponseMetadata,
+    GlobalConfig,
+} from './types'
+import { HtmlLink, CssLink, ManifestLink } from './extract-links/types'
+
+/**
+ * Wraps a Document in a (mutable) resource object. Besides HTML documents, this is also used for
+ * SVG documents (i.e. a Document with contentType 'image/svg+xml'), which are serialised as XML.
+ * @param {Object} options
+ * @param {string} options.url - the URL of the document.
+ * @param {Document} options.doc - the Document; it will be mutated when modifying the links.
+ * @param {string} options.captureMethod - 'live' or 'refetched'; see the DomResource type.
+ * @param {string} [options.encoding] - the original encoding of the document, if it differs from
+ * the document's characterSet (e.g. because it was decoded before parsing it).
+ * @param {Object[]} [options.links] - the links of the document, if already extracted.
+ * @param {Object} [options.response] - metadata about the response, if the document was fetched.
+ * @returns {Object} resource - the resource object representing the DOM.
+ */
+export function makeDomResource({
+    url,
+    doc,
+    captureMethod,
+    encoding = doc.characterSet,
+    links = extractLinksFromDom(doc, { docUrl: url }),
+    response,
+}: {
+    url: UrlString,
+    doc: Document,
+    captureMethod: DomResource['captureMethod'],
+    encoding?: string,
+    links?: HtmlLink[],
+    response?: ResponseMetadata,
+}, config: Pick<GlobalConfig, 'glob'>): DomResource {
+    return {
+        url,
+        doc,
+        captureMethod,
+        encoding,
+        response,
+        // The string is encoded as UTF-8, so we note that in the type (overriding any <meta charset>).
+        get blob() {
+            const type = isSvgDocument(doc) ? 'image/svg+xml' : 'text/html'
+            return new config.glob.Blob([this.string], { type: `${type};charset=utf-8` })
+        },
+        get string() {
+            if (isSvgDocument(doc)) {
+                return new config.glob.XMLSerializer().serializeToString(doc)
+            }
+            // TODO Add <meta charset> if absent? Or html-encode characters as needed?
+            return documentOuterHTML(doc)
+        },
+        links, // TODO should links be a getter that extracts the links again?
+    }
+}
+
+/**
+ * Parses a stylesheet and wraps it in a (mutable) resource object.
+ * @param {Object} options
+ * @param {string} options.url - the URL of the stylesheet.
+ * @param {string} options.stylesheetText - the content of the stylesheet.
+ * @param {string} [options.encoding] - the original encoding of the stylesheet, if known.
+ * @param {Object} [options.response] - metadata about the response the stylesheet was fetched from.
+ * @returns {Object} resource - the resource object representing the stylesheet.
+ */
+export function makeStylesheetResource({
+    url,
+    stylesheetText,
+    encoding,
+    response,
+}: {
+    url: UrlString,
+    stylesheetText: string,
+    encoding?: string,
+    response?: ResponseMetadata,
+}, config: Pick<GlobalConfig, 'glob'>): StylesheetResource {
+    let links: CssLink[]
+    let getCurrentStylesheetText: () => string
+    try {
+        const parsedCss = postcss.parse(stylesheetText)
+        links = extractLinksFromCss(parsedCss, url)
+        getCurrentStylesheetText = () => parsedCss.toResult().css
+    } catch (err) {
+        // CSS is corrupt. Pretend there are no links.
+        links = []
+        getCurrentStylesheetText = () => stylesheetText
+    }
+
+    return {
+        url,
+        encoding,
+        response,
+        // The string is encoded as UTF-8, so we note that in the type (overriding any @charset rule).
+        get blob() {
+            return new config.glob.Blob([this.string], { type: 'text/css;charset=utf-8' })
+        },
+        get string() { return getCurrentStylesheetText() },
+        links,
+    }
+}
+
+/**
+ * Parses a web app manifest and wraps it in a (mutable) resource object.
+ * @param {Object} options
+ * @param {string} options.url - the URL of the manifest.
+ * @param {string} options.manifestText - the content of the manifest, i.e. a string of JSON.
+ * @param {Object} [options.response] - metadata about the response the manifest was fetched from.
+ * @returns {Object} resource - the resource object representing the manifest.
+ */
+export function makeManifestResource({
+    url,
+    manifestText,
+    response,
+}: {
+    url: UrlString,
+    manifestText: string,
+    response?: ResponseMetadata,
+}, config: Pick<GlobalConfig, 'glob'>): ManifestResource {
+    let manifest: ManifestResource['manifest']
+    let links: ManifestLink[]
+    try {
+        const parsedManifest = JSON.parse(manifestText)
+        manifest = typeof parsedManifest === 'object' && !Array.isArray(parsedManifest)
+            ? parsedManifest
+            : null
+        links = extractLinksFromManifest(manifest, url)
+    } catch (err) {
+        // JSON is corrupt. Pretend there are no links.
+        manifest = null
+        links = []
+    }
+
+    return {
+        url,
+        manifest,
+        response,
+        get blob() {
+            return new config.glob.Blob([this.string], { type: 'application/manifest+json' })
+        },
+        get string() {
+            // Reserialise the manifest if we can, so it reflects any changed links.
+            return manifest !== null ? JSON.stringify(manifest) : manifestText
+        },
+        links,
+    }
+}
+
+export function isSvgDocument(doc: Document): boolean {
+    return doc.contentType === 'image/svg+xml'
+}
@@ -1,8 +1,6 @@
 // External dependencies are imported via this file, to ease remapping them in setups without npm.
 import documentOuterHTML from 'document-outerhtml'
 export { documentOuterHTML }
-import domNodeAtPath from 'domnode-at-path'
-export { domNodeAtPath }
 import flatOptions from 'flat-options'
 export { flatOptions }
 import memoizeOne from 'memoize-one'
@@ -11,8 +9,6 @@ import memoize from 'memoize-weak'
 export { memoize }
 import mutableProxyFactory from 'mutable-proxy'
 export { mutableProxyFactory }
-import pathForDomNode from 'path-to-domnode'
-export { pathForDomNode }
 import postcss from 'postcss'
 export { postcss }
 import postCssValuesParser from 'postcss-values-parser'
@@ -0,0 +1,15 @@
+import { GlobalConfig, FreezeDryProgressEvent } from './types'
+
+/**
+ * Passes a progress event to config.onProgress, if given. The callback is merely informed; any
+ * error it throws is ignored, so that it cannot make freeze-drying (or a fetch) fail.
+ * @param {Object} event - the progress event; see FreezeDryProgressEvent.
+ */
+export default function reportProgress(
+    event: FreezeDryProgressEvent,
+    config: Pick<GlobalConfig, 'onProgress'>,
+): void {
+    try {
+        config.onProgress?.(event)
+    } catch (error) {}
+}
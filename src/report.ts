@@ -0,0 +1,52 @@
+import { DomResource, FreezeDryReport, SubresourceReport } from './types'
+import { SubresourceLink } from './extract-links/types'
+import { allResourcesInTree } from './resource-tree'
+import {
+    SubresourceSkippedError,
+    SubresourceTimeoutError,
+    SubresourceAbortedError,
+} from './crawl-subresources/errors'
+
+/**
+ * Start a report on the subresource links in the tree. As inlining subresources changes the links'
+ * targets, this should be started before the resource tree is compiled into a single file.
+ * @param {Object} resource - the resource object representing the DOM with its subresources.
+ * @returns {Function} a function to complete the report, given the errors noted for links, and
+ * whether crawling was cut short by the timeout (rather than cancelled); it returns the report.
+ */
+export default function startReport(resource: DomResource): (
+    linkErrors: Map<SubresourceLink, unknown>,
+    timedOut: boolean,
+) => FreezeDryReport {
+    const links = [...allResourcesInTree(resource)]
+        .flatMap(({ links }) => links)
+        .filter((link): link is SubresourceLink => link.isSubresource)
+        .map(link => ({ link, url: link.absoluteTarget }))
+
+    return (linkErrors, timedOut) => ({
+        subresources: links.map(({ link, url }) => {
+            const subresourceType = link.subresourceType
+            const error = linkErrors.get(link)
+            let outcome: SubresourceReport['outcome']
+            if (link.resource && error === undefined) {
+                return { url, subresourceType, outcome: 'inlined', size: link.target.length }
+            } else if (error instanceof SubresourceSkippedError) {
+                outcome = 'skipped'
+            } else if (error instanceof SubresourceTimeoutError) {
+                outcome = 'timed-out'
+            } else if (error instanceof SubresourceAbortedError) {
+                // Crawling was stopped before it was done: because of the timeout, or on purpose.
+                outcome = timedOut ? 'timed-out' : 'skipped'
+            } else if (error !== undefined) {
+                outcome = 'failed'
+            } else {
+                // The link was not crawled at all: either crawling was stopped before it was done,
+                // or we do not crawl this type of subresource.
+                outcome = timedOut ? 'timed-out' : 'skipped'
+            }
+            return error !== undefined
+                ? { url, subresourceType, outcome, error }
+                : { url, subresourceType, outcome }
+        }),
+    })
+}
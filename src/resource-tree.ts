@@ -0,0 +1,21 @@
+import { Resource } from './types'
+
+/**
+ * A depth-first iterator through the tree of resource+subresources. A subresource that is shared by
+ * multiple links (e.g. a stylesheet imported by two others) is visited only once.
+ * @param {Object} resource - the root resource.
+ * @returns {Iterable<Object>} the resource and all its (direct and indirect) subresources.
+ */
+export function* allResourcesInTree(
+    resource: Resource,
+    visited: Set<Resource> = new Set(),
+): Iterable<Resource> {
+    if (visited.has(resource)) return
+    visited.add(resource)
+    yield resource
+    for (const link of resource.links) {
+        if (link.isSubresource && link.resource) {
+            yield* allResourcesInTree(link.resource, visited)
+        }
+    }
+}
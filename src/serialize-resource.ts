@@ -0,0 +1,157 @@
+import { makeDomResource, makeStylesheetResource, makeManifestResource } from './make-resource'
+import { blobToDataUrl, dataUrlToBlob } from './data-urls'
+import {
+    Resource,
+    DomResource,
+    GlobalConfig,
+    SerializedResource,
+    SerializedDomResource,
+    SerializedLink,
+    DocumentContentType,
+} from './types'
+import { Link } from './extract-links/types'
+
+/**
+ * Converts a DOM resource and its subresources into a JSON-compatible object, so that processing can
+ * be continued elsewhere (e.g. in a background script or worker). Use rehydrateDomResource() to
+ * recreate the resource.
+ * @param {Object} resource - the resource object representing the DOM with its subresources.
+ * @returns {Promise<Object>} serializedResource - a plain object containing only strings, numbers
+ * and arrays.
+ */
+export async function serializeDomResource(
+    resource: DomResource,
+    config: Pick<GlobalConfig, 'glob'>,
+): Promise<SerializedDomResource> {
+    return await serializeResource(resource, config) as SerializedDomResource
+}
+
+async function serializeResource(
+    resource: Resource,
+    config: Pick<GlobalConfig, 'glob'>,
+): Promise<SerializedResource> {
+    const links = await serializeLinks(resource.links, config)
+    if (resource.doc) {
+        return {
+            type: 'dom',
+            url: resource.url,
+            string: resource.string,
+            contentType: resource.doc.contentType as DocumentContentType,
+            captureMethod: resource.captureMethod,
+            encoding: resource.encoding,
+            links,
+            response: resource.response,
+        }
+    } else if ('manifest' in resource) {
+        return {
+            type: 'manifest',
+            url: resource.url,
+            string: resource.string,
+            links,
+            response: resource.response,
+        }
+    } else if ('string' in resource) {
+        return {
+            type: 'stylesheet',
+            url: resource.url,
+            string: resource.string,
+            encoding: resource.encoding,
+            links,
+            response: resource.response,
+        }
+    } else {
+        return {
+            type: 'leaf',
+            url: resource.url,
+            dataUrl: await blobToDataUrl(resource.blob, config),
+            links,
+            response: resource.response,
+        }
+    }
+}
+
+async function serializeLinks(
+    links: Link[],
+    config: Pick<GlobalConfig, 'glob'>,
+): Promise<SerializedLink[]> {
+    const serializedLinks = await Promise.all(links.map(async (link, index) => {
+        if (!link.isSubresource || !link.resource) return undefined
+        return {
+            index,
+            target: link.target,
+            resource: await serializeResource(link.resource, config),
+        }
+    }))
+    return serializedLinks.filter((link): link is SerializedLink => link !== undefined)
+}
+
+/**
+ * Recreates a DOM resource and its subresources from the output of serializeDomResource().
+ * @param {Object} serializedResource - the serialized DOM resource.
+ * @param {Object} config
+ * @param {Window} config.glob - the global object providing the DOMParser, Blob, etc. to use.
+ * @returns {Object} resource - the resource object representing the DOM with its subresources; its
+ * links again provide a live view on the document.
+ */
+export function rehydrateDomResource(
+    serializedResource: SerializedDomResource,
+    config: Pick<GlobalConfig, 'glob'>,
+): DomResource {
+    return rehydrateResource(serializedResource, config) as DomResource
+}
+
+function rehydrateResource(
+    serializedResource: SerializedResource,
+    config: Pick<GlobalConfig, 'glob'>,
+): Resource {
+    let resource: Resource
+    if (serializedResource.type === 'dom') {
+        const parser = new config.glob.DOMParser()
+        const { string, contentType } = serializedResource
+        const doc = parser.parseFromString(string, contentType)
+        resource = makeDomResource({
+            url: serializedResource.url,
+            doc,
+            captureMethod: serializedResource.captureMethod,
+            encoding: serializedResource.encoding,
+            response: serializedResource.response,
+        }, config)
+    } else if (serializedResource.type === 'stylesheet') {
+        resource = makeStylesheetResource({
+            url: serializedResource.url,
+            stylesheetText: serializedResource.string,
+            encoding: serializedResource.encoding,
+            response: serializedResource.response,
+        }, config)
+    } else if (serializedResource.type === 'manifest') {
+        resource = makeManifestResource({
+            url: serializedResource.url,
+            manifestText: serializedResource.string,
+            response: serializedResource.response,
+        }, config)
+    } else {
+        resource = {
+            url: serializedResource.url,
+            blob: dataUrlToBlob(serializedResource.dataUrl, config),
+            links: [],
+            response: serializedResource.response,
+        }
+    }
+
+    rehydrateLinks(resource.links, serializedResource.links, config)
+    return resource
+}
+
+function rehydrateLinks(
+    links: Link[],
+    serializedLinks: SerializedLink[],
+    config: Pick<GlobalConfig, 'glob'>,
+) {
+    for (const serializedLink of serializedLinks) {
+        const link = links[serializedLink.index]
+        // Parsing the resource again should give the same links in the same order; but if for
+        // some reason it did not, we rather drop the subresource than attach it to the wrong link.
+        if (!link || !link.isSubresource || link.target !== serializedLink.target) continue
+        link.resource = rehydrateResource(serializedLink.resource, config)
+    }
+}
@@ -0,0 +1,23 @@
+// Shadow roots are not part of a cloned or serialised DOM. We capture them as ‘declarative shadow
+// roots’: a <template shadowrootmode="..."> element inside the shadow host, holding the shadow
+// root's content.
+// See https://html.spec.whatwg.org/multipage/scripting.html#attr-template-shadowrootmode
+
+export const shadowRootTemplateSelector = 'template[shadowrootmode]'
+
+/**
+ * Get the content of each declarative shadow root inside the given node (recursively).
+ * @param {ParentNode} rootNode - the document, element or fragment to search in.
+ * @returns {DocumentFragment[]} The content of each shadow root template, in tree order (and the
+ * content of any nested shadow roots directly after that of their host's shadow root).
+ */
+export function shadowRootContents(rootNode: ParentNode): DocumentFragment[] {
+    const templates = Array.from(rootNode.querySelectorAll(shadowRootTemplateSelector))
+        .filter((element): element is HTMLTemplateElement => 'content' in element)
+    const contents: DocumentFragment[] = []
+    for (const template of templates) {
+        contents.push(template.content)
+        contents.push(...shadowRootContents(template.content))
+    }
+    return contents
+}
@@ -0,0 +1,29 @@
+import { SubresourceType } from '../extract-links/url-attributes/types'
+
+// Determines how a subresource is fetched when crawling, and how hard we try.
+export interface FetchPolicy {
+    // Maximum time (in milliseconds) for a single attempt, including reading the response body.
+    readonly timeout: number;
+
+    // How many times to try again after a failed attempt.
+    readonly retries: number;
+
+    // Time (in milliseconds) to wait before the first retry; it is doubled for each next retry.
+    readonly retryDelay: number;
+
+    // Response statuses that are considered transient, and thus worth retrying.
+    readonly retryStatuses: number[];
+
+    // Whether to retry after a network error or a timed out attempt.
+    readonly retryOnError: boolean;
+
+    // Maximum size (in bytes) of the resource; larger resources are not kept (and, if the response
+    // declares its Content-Length, not even downloaded).
+    readonly maxSize: number;
+}
+
+// Fetch policies per subresource type, with a 'default' for types not listed. Each may specify just
+// some of the fields; the remaining ones are taken from the default policy.
+export type FetchPolicies = {
+    readonly [Key in SubresourceType | 'default']?: Partial<FetchPolicy>;
+}
@@ -1,16 +1,53 @@
-import { UrlString, Fetchy, FrameElement } from './util'
+import { UrlString, Fetchy, FrameElement, FormInputElement } from './util'
+import { FetchPolicies } from './fetch-policy'
+import { FreezeDryProgressEvent } from './progress'
+import { Resource } from './resource'
+import { ResourceCache } from './resource-cache'
+import { SubresourceLink } from '../extract-links/types'
+import { SubresourceType } from '../extract-links/url-attributes/types'
 
+export * from './fetch-policy'
+export * from './progress'
+export * from './report'
 export * from './resource'
+export * from './resource-cache'
+export * from './serialized-resource'
 export * from './util'
 
 export interface GlobalConfig {
     timeout: number,
+    signal?: AbortSignal,
     docUrl?: UrlString,
     charsetDeclaration: string | null,
     addMetadata: boolean,
     keepOriginalAttributes: boolean,
     now: Date,
     fetchResource?: Fetchy,
-    getDocInFrame?: (frameElement: FrameElement) => Document | null, // TODO expose to user & test.
+    getRequestInit?: (options: {
+        link: SubresourceLink,
+        subresourceType: SubresourceType | undefined,
+        parentResource: Resource,
+        defaultRequestInit: RequestInit,
+    }) => RequestInit | undefined,
+    fetchPolicies?: FetchPolicies,
+    resourceCache?: ResourceCache,
+    blockSubresource?: (options: {
+        link: SubresourceLink,
+        url: UrlString,
+        subresourceType: SubresourceType | undefined,
+        parentResource: Resource,
+    }) => boolean,
+    blocklist?: string | string[],
+    removeBlockedFrames?: boolean,
+    maxTotalSize?: number,
+    onProgress?: (event: FreezeDryProgressEvent) => void,
+    maxConcurrency?: number,
+    maxConcurrencyPerOrigin?: number,
+    maxFrameDepth?: number,
+    maxImportDepth?: number,
+    excludeFormInput?: (element: FormInputElement) => boolean,
+    getDocInFrame?: (frameElement: FrameElement) => Document | null | Promise<Document | null>,
+    getShadowRoot?: (element: Element) => ShadowRoot | null,
+    responsiveImages?: 'all' | 'chosen' | 'largest',
     glob: typeof window, /* global window */
 }
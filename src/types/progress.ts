@@ -0,0 +1,55 @@
+import { UrlString } from './util'
+import { SubresourceType } from '../extract-links/url-attributes/types'
+
+// The events passed to the onProgress callback while freeze-drying.
+export type FreezeDryProgressEvent =
+    | PhaseProgressEvent
+    | ResourceDiscoveredEvent
+    | ResourceStartedEvent
+    | ResourceReceivedEvent
+    | ResourceFinishedEvent
+    | ResourceFailedEvent
+
+// Freeze-drying has moved on to the next step: capturing the DOM, crawling the subresources,
+// ‘drying’ them, or compiling them into a single file.
+export interface PhaseProgressEvent {
+    readonly type: 'phase';
+    readonly phase: 'capture' | 'crawl' | 'dry' | 'compile';
+}
+
+interface ResourceProgressEvent_base {
+    // The URL of the subresource, as requested (i.e. before any redirects).
+    readonly url: UrlString;
+    readonly subresourceType: SubresourceType | undefined;
+}
+
+// A subresource with a URL not seen before will be fetched (possibly after waiting its turn).
+export interface ResourceDiscoveredEvent extends ResourceProgressEvent_base {
+    readonly type: 'discovered';
+}
+
+// A request for the subresource is started; attempt is 0 for the first, 1 for the first retry, etc.
+export interface ResourceStartedEvent extends ResourceProgressEvent_base {
+    readonly type: 'started';
+    readonly attempt: number;
+}
+
+// Some more bytes of the subresource have arrived. The total is known only if the response gave
+// its Content-Length.
+export interface ResourceReceivedEvent extends ResourceProgressEvent_base {
+    readonly type: 'received';
+    readonly bytesReceived: number;
+    readonly bytesTotal: number | undefined;
+}
+
+// The subresource has been fetched completely.
+export interface ResourceFinishedEvent extends ResourceProgressEvent_base {
+    readonly type: 'finished';
+    readonly size: number;
+}
+
+// The subresource could not be fetched (after any retries), and will be left out.
+export interface ResourceFailedEvent extends ResourceProgressEvent_base {
+    readonly type: 'failed';
+    readonly error: unknown;
+}
@@ -0,0 +1,28 @@
+import { UrlString } from './util'
+import { SubresourceType } from '../extract-links/url-attributes/types'
+
+// Describes how well freeze-drying went, as returned by freezeDryWithReport.
+export interface FreezeDryReport {
+    // Every link to a subresource in the snapshot (including those in stylesheets, frames, etc.).
+    subresources: SubresourceReport[];
+}
+
+export interface SubresourceReport {
+    // The (absolute) URL of the subresource, as linked to.
+    url: UrlString | undefined;
+    subresourceType: SubresourceType | undefined;
+
+    // What became of the subresource:
+    // - 'inlined': it is included in the snapshot.
+    // - 'failed': it could not be fetched, or could not be inlined.
+    // - 'timed-out': it was not fetched in time.
+    // - 'skipped': it was deliberately left out, e.g. because it exceeds the maximum size, or is of
+    //   a type that freeze-dry does not crawl.
+    outcome: 'inlined' | 'failed' | 'timed-out' | 'skipped';
+
+    // The reason for not inlining the subresource, if known.
+    error?: unknown;
+
+    // The size of the inlined data URL, in characters (i.e. bytes).
+    size?: number;
+}
@@ -0,0 +1,30 @@
+import { UrlString } from './util'
+import { ResponseMetadata } from './resource'
+
+// A cache for subresources, which may persist beyond a single snapshot; e.g. to avoid fetching the
+// same fonts and stylesheets again for every page of a website. Its methods may be asynchronous, so
+// that it can be backed by e.g. IndexedDB.
+export interface ResourceCache {
+    // Returns the resource cached for the given (requested) URL, if any.
+    get(url: UrlString): CachedResource | undefined | Promise<CachedResource | undefined>;
+
+    // Stores the resource for the given (requested) URL, replacing any previous one.
+    put(url: UrlString, resource: CachedResource): void | Promise<void>;
+}
+
+export interface CachedResource {
+    // The final URL of the resource (i.e. after any redirects).
+    readonly url: UrlString;
+    readonly blob: Blob;
+
+    // Validation metadata, from the response headers. Once the resource has expired, these are used
+    // to ask the server whether it has changed (i.e. to make a conditional request).
+    readonly etag?: string;
+    readonly lastModified?: string;
+
+    // When the resource expires (a timestamp in milliseconds); if absent, it never does.
+    readonly expires?: number;
+
+    // How the resource was originally retrieved, to be recorded on resources taken from the cache.
+    readonly response?: ResponseMetadata;
+}
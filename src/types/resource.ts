@@ -1,7 +1,7 @@
 import { UrlString } from './util'
-import { Link, CssLink } from '../extract-links/types'
+import { Link, CssLink, ManifestLink } from '../extract-links/types'
 
-export type Resource = DomResource | StylesheetResource | LeafResource
+export type Resource = DomResource | StylesheetResource | ManifestResource | LeafResource
 
 interface Resource_base {
     // URL of the resource.
@@ -15,6 +15,30 @@ interface Resource_base {
     // remembered as a property `resource` on the corresponding link object, thus forming a tree of
     // resources.
     readonly links: Link[];
+
+    // How the resource was retrieved, if it was fetched (i.e. absent for a document captured from
+    // the live DOM).
+    readonly response?: ResponseMetadata;
+}
+
+// Information about the response a resource was fetched from, e.g. to record its provenance.
+export interface ResponseMetadata {
+    // The URL that was requested. If the request was redirected, the resource's url differs.
+    readonly requestedUrl: UrlString;
+
+    // The URLs from the requested to the final URL, if the request was redirected (otherwise just
+    // the requested URL). Note that fetch() does not reveal any intermediate redirects, so these
+    // are only present if a custom fetchResource provided them.
+    readonly redirectChain: UrlString[];
+
+    // The HTTP status, if known (fetchResource may return an object without one).
+    readonly status?: number;
+
+    // Selected response headers (see recordedHeaders in fetch-subresource.ts), by lowercase name.
+    readonly headers: { [name: string]: string };
+
+    // When the response was received (a timestamp in milliseconds).
+    readonly retrievedAt: number;
 }
 
 export interface DomResource extends Resource_base {
@@ -23,14 +47,39 @@ export interface DomResource extends Resource_base {
 
     // The DOM as a string (i.e. the document's outerHTML)
     readonly string: string;
+
+    // Whether the document was captured from the live DOM ('live'), or had to be fetched and parsed
+    // anew ('refetched'), e.g. because the same-origin policy refused access to a frame's content.
+    readonly captureMethod: 'live' | 'refetched';
+
+    // The character encoding of the original document (e.g. 'shift_jis'). Note that the blob and
+    // string are always UTF-8, whatever the original encoding.
+    readonly encoding: string;
 }
 
 export interface StylesheetResource extends Resource_base {
     readonly string: string;
+
+    // The character encoding of the original stylesheet, if known (e.g. 'shift_jis'). Note that the
+    // blob and string are always UTF-8, whatever the original encoding.
+    readonly encoding?: string;
+
     readonly links: CssLink[];
     readonly doc?: undefined; // (explicitly undefined to make .doc a discriminant for DomResource)
 }
 
+export interface ManifestResource extends Resource_base {
+    // The web app manifest as a string of JSON.
+    readonly string: string;
+
+    // The parsed manifest (null if it is not valid JSON). Changing the target of a link modifies
+    // this object, and thereby the string.
+    readonly manifest: { [key: string]: unknown } | null;
+
+    readonly links: ManifestLink[];
+    readonly doc?: undefined; // (explicitly undefined to make .doc a discriminant for DomResource)
+}
+
 export interface LeafResource extends Resource_base {
     readonly doc?: undefined; // (explicitly undefined to make .doc a discriminant for DomResource)
 }
@@ -0,0 +1,67 @@
+import { UrlString } from './util'
+import { DomResource, ResponseMetadata } from './resource'
+
+// A JSON-compatible representation of a resource and its subresources, as produced by
+// serializeDomResource() and consumed by rehydrateDomResource().
+export type SerializedResource =
+    | SerializedDomResource
+    | SerializedStylesheetResource
+    | SerializedManifestResource
+    | SerializedLeafResource
+
+interface SerializedResource_base {
+    readonly url: UrlString;
+
+    // The links whose subresource is available. Other links are recreated when parsing the
+    // resource again, so they need not be stored.
+    readonly links: SerializedLink[];
+
+    // (this is JSON-compatible as is)
+    readonly response?: ResponseMetadata;
+}
+
+export interface SerializedDomResource extends SerializedResource_base {
+    readonly type: 'dom';
+
+    // The DOM as a string of HTML (or of XML, for an SVG document).
+    readonly string: string;
+
+    // The document's type, e.g. 'text/html' or 'image/svg+xml'.
+    readonly contentType: DocumentContentType;
+
+    readonly captureMethod: DomResource['captureMethod'];
+    readonly encoding: string;
+}
+
+export interface SerializedStylesheetResource extends SerializedResource_base {
+    readonly type: 'stylesheet';
+    readonly string: string;
+    readonly encoding?: string;
+}
+
+export interface SerializedManifestResource extends SerializedResource_base {
+    readonly type: 'manifest';
+
+    // The manifest as a string of JSON.
+    readonly string: string;
+}
+
+export interface SerializedLeafResource extends SerializedResource_base {
+    readonly type: 'leaf';
+
+    // The content (and media type) of the resource's Blob, as a data URL.
+    readonly dataUrl: string;
+}
+
+// The types of document the DOMParser can parse.
+export type DocumentContentType = Parameters<DOMParser['parseFromString']>[1]
+
+export interface SerializedLink {
+    // The position of the link in the links of its resource.
+    readonly index: number;
+
+    // The link's target, used to check the link is found at the same position after parsing.
+    readonly target: string;
+
+    readonly resource: SerializedResource;
+}
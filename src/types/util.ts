@@ -3,6 +3,20 @@ export type { UrlString }
 
 export type FrameElement = HTMLFrameElement | HTMLIFrameElement
 
+export type FormInputElement = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+
 export type Fetchy = WindowOrWorkerGlobalScope['fetch']
     | ((...args: Parameters<WindowOrWorkerGlobalScope['fetch']>)
-        => Promise<{ blob: Blob, url: UrlString }>)
+        => Promise<FetchResourceResult>)
+
+// What a custom fetchResource may return instead of a Response. Besides the content and the final
+// URL, it may tell about the response, which is then recorded in the resource's metadata.
+export interface FetchResourceResult {
+    blob: Blob,
+    url: UrlString,
+    status?: number,
+    headers?: Headers | { [name: string]: string },
+
+    // The URLs from the requested to the final URL, including any intermediate redirects.
+    redirectChain?: UrlString[],
+}
@@ -3,7 +3,16 @@ import jsdom from 'jsdom'
 import jestFetchMock from 'jest-fetch-mock' // magically polyfills Response, Request, ...
 import { dataURLToBlob } from 'blob-util'
 
-import freezeDry from '../src/index'
+import freezeDry, {
+    freezeDryWithReport,
+    captureDom,
+    crawlSubresourcesOfDom,
+    dryResources,
+    createSingleFile,
+    serializeDomResource,
+    rehydrateDomResource,
+} from '../src/index'
+import { SubresourceAbortedError } from '../src/crawl-subresources/errors'
 
 const fetch = jestFetchMock
 Object.assign(global, { fetch })
@@ -36,6 +45,197 @@ test('should capture current state of documents inside frames', async () => {
     expect(dryInnerDoc.querySelector('hr')).not.toBeNull()
 })
 
+test('should use the custom getDocInFrame function', async () => {
+    const testWithGetDocInFrame = async getDocInFrame => {
+        const doc = await getExampleDoc()
+
+        const result = await freezeDry(doc, { now: new Date(1534615340948), getDocInFrame })
+
+        expect(getDocInFrame).toHaveBeenCalledWith(doc.querySelector('iframe'))
+        const dryDoc = await makeDom(result)
+        const dryInnerDoc = dryDoc.querySelector('iframe').contentDocument
+        expect(dryInnerDoc.querySelector('h1').textContent).toEqual('Custom frame content')
+    }
+    const getCustomDoc = () => {
+        const html = '<html><body><h1>Custom frame content</h1></body></html>'
+        return new DOMParser().parseFromString(html, 'text/html')
+    }
+
+    // The function may return a document, or a promise of a document.
+    await testWithGetDocInFrame(jest.fn(getCustomDoc))
+    await testWithGetDocInFrame(jest.fn(async () => getCustomDoc()))
+})
+
+test('should refetch the frame document if getDocInFrame does not provide it', async () => {
+    const doc = await getExampleDoc()
+
+    // Modify the iframe contents; as we do not provide the document, the capture should not include
+    // the modifications.
+    const innerDoc = doc.getElementsByTagName('iframe')[0].contentDocument
+    innerDoc.body.appendChild(innerDoc.createElement('hr'))
+
+    const result = await freezeDry(doc, {
+        now: new Date(1534615340948),
+        getDocInFrame: async () => null,
+    })
+
+    expect(fetch).toHaveBeenCalledWith('https://example.com/iframe/innerpage.html', expect.anything())
+    const dryDoc = await makeDom(result)
+    const dryInnerDoc = dryDoc.querySelector('iframe').contentDocument
+    expect(dryInnerDoc.querySelector('hr')).toBeNull()
+    expect(dryInnerDoc.querySelector('img').getAttribute('src')).toMatch(/^data:image\/png;/)
+})
+
+test('should stop waiting for getDocInFrame after given timeout', async () => {
+    const doc = await getExampleDoc()
+
+    // Make getDocInFrame never resolve.
+    let getDocInFrameCalled: () => void
+    const getDocInFrameCalledP = new Promise(resolve => { getDocInFrameCalled = resolve })
+    const getDocInFrame = jest.fn(() => {
+        getDocInFrameCalled()
+        return new Promise<Document>(resolve => {})
+    })
+
+    const resultP = freezeDryWithReport(doc, { timeout: 200, getDocInFrame })
+    await getDocInFrameCalledP
+    jest.runAllTimers() // trigger the timeout directly.
+    const { html, report } = await resultP
+
+    // The frame's document could not be refetched anymore either.
+    const dryDoc = await makeDom(html)
+    expect(dryDoc.querySelector('iframe').getAttribute('src'))
+        .toBe('https://example.com/iframe/innerpage.html')
+    const frameReport = report.subresources.find(({ subresourceType }) =>
+        subresourceType === 'document')
+    expect(frameReport.outcome).toBe('timed-out')
+})
+
+test('should note whether frame documents were captured live or refetched', async () => {
+    const doc = await getExampleDoc()
+    const glob = doc.defaultView
+    const getFrameLink = resource => resource.links.find(link => link.subresourceType === 'document')
+
+    const liveResource = await captureDom(doc, { glob })
+    expect(liveResource.captureMethod).toEqual('live')
+    expect(getFrameLink(liveResource).resource.captureMethod).toEqual('live')
+
+    const resource = await captureDom(doc, { glob, getDocInFrame: () => null })
+    expect(getFrameLink(resource).resource).toBeUndefined()
+    await crawlSubresourcesOfDom(resource, { glob })
+    expect(getFrameLink(resource).resource.captureMethod).toEqual('refetched')
+})
+
+test('should capture the content of shadow roots', async () => {
+    const doc = await getExampleDoc()
+
+    // Put some content in a shadow root, which would not be preserved by just cloning the DOM.
+    const host = doc.createElement('div')
+    doc.body.appendChild(host)
+    host.attachShadow({ mode: 'open' }).innerHTML = `
+        <img src="/imgs/8x8.png" onclick="handler()">
+        <style>p { background: url("../imgs/background.png"); }</style>
+        <script>alert('spam')</script>
+    `
+
+    const result = await freezeDry(doc, { now: new Date(1534615340948) })
+
+    const dryDoc = await makeDom(result)
+    const template = dryDoc.querySelector('template[shadowrootmode=open]')
+    expect(template).not.toBeNull()
+    const shadowContent = template.content
+    expect(shadowContent.querySelector('img').getAttribute('src')).toMatch(/^data:image\/png;/)
+    expect(shadowContent.querySelector('img').hasAttribute('onclick')).toBe(false)
+    expect(shadowContent.querySelector('style').textContent).toMatch(/url\("data:image\/png;/)
+    expect(shadowContent.querySelector('script')).toBeNull()
+})
+
+test('should allow continuing the process from a serialized resource', async () => {
+    const now = new Date(1534615340948)
+    const doc = await getExampleDoc()
+    const expectedResult = await freezeDry(doc, { now })
+    const config = {
+        charsetDeclaration: 'utf-8',
+        addMetadata: true,
+        keepOriginalAttributes: true,
+        now,
+        glob: doc.defaultView,
+    }
+    // Serialize & rehydrate, passing it through JSON to ensure it is JSON-compatible.
+    const passAlong = async resource => rehydrateDomResource(
+        JSON.parse(JSON.stringify(await serializeDomResource(resource, config))),
+        config,
+    )
+
+    // Pass along the captured resource (including the captured frame).
+    const resource = await passAlong(await captureDom(doc, config))
+    await crawlSubresourcesOfDom(resource, config)
+    // Pass along the resource again, now including all fetched subresources.
+    const crawledResource = await passAlong(resource)
+    dryResources(crawledResource, config)
+    const result = await createSingleFile(crawledResource, config)
+
+    expect(result).toEqual(expectedResult)
+})
+
+test('should record the response metadata of fetched resources', async () => {
+    const docUrl = 'https://example.com/page.html'
+    const doc = new DOMParser().parseFromString(`<html><head>
+        <link rel="stylesheet" href="old.css">
+    </head><body>
+        <img src="pic.png">
+    </body></html>`, 'text/html')
+    const fetchResource = jest.fn(async (url: string) => url.endsWith('.css')
+        ? {
+            url: 'https://cdn.example.com/new.css',
+            blob: new Blob(['body {}'], { type: 'text/css' }),
+            redirectChain: [
+                url,
+                'https://example.com/moved.css',
+                'https://cdn.example.com/new.css',
+            ],
+        }
+        : {
+            url,
+            blob: new Blob(['png'], { type: 'image/png' }),
+            status: 200,
+            headers: { 'Last-Modified': 'Tue, 01 Jan 2019 00:00:00 GMT', 'X-Secret': 'abc' },
+        }
+    )
+    const resource = await captureDom(doc, { docUrl, glob: window })
+    const config = { glob: window }
+
+    await crawlSubresourcesOfDom(resource, { ...config, fetchResource })
+    const [stylesheetLink, imageLink] = resource.links.filter(link => link.isSubresource)
+    // Pass it along, to check the metadata survives serialisation.
+    const rehydratedResource = rehydrateDomResource(
+        JSON.parse(JSON.stringify(await serializeDomResource(resource, config))),
+        config,
+    )
+
+    expect(resource.response).toBeUndefined()
+    expect(stylesheetLink.resource.response).toEqual({
+        requestedUrl: 'https://example.com/old.css',
+        redirectChain: [
+            'https://example.com/old.css',
+            'https://example.com/moved.css',
+            'https://cdn.example.com/new.css',
+        ],
+        headers: {},
+        retrievedAt: expect.any(Number),
+    })
+    expect(imageLink.resource.response).toEqual({
+        requestedUrl: 'https://example.com/pic.png',
+        redirectChain: ['https://example.com/pic.png'],
+        status: 200,
+        headers: { 'last-modified': 'Tue, 01 Jan 2019 00:00:00 GMT' },
+        retrievedAt: expect.any(Number),
+    })
+    const rehydratedLinks = rehydratedResource.links.filter(link => link.isSubresource)
+    expect(rehydratedLinks[0].resource.response).toEqual(stylesheetLink.resource.response)
+    expect(rehydratedLinks[1].resource.response).toEqual(imageLink.resource.response)
+})
+
 test('should be idempotent', async () => {
     const doc = await getExampleDoc()
     const dryHtml = await freezeDry(doc, { now: new Date(1534615340948) })
@@ -64,6 +264,273 @@ test('should return the incomplete result after given timeout', async () => {
     expect(result).toMatchSnapshot()
 })
 
+test('should report on each subresource', async () => {
+    const docUrl = 'https://example.com/page.html'
+    const doc = new DOMParser().parseFromString(`<html><head>
+        <link rel="stylesheet" href="style.css">
+    </head><body>
+        <img src="ok.png">
+        <img src="missing.png">
+        <video src="huge.mp4"></video>
+    </body></html>`, 'text/html')
+    const fetchResource = async (url: string) => {
+        if (url.endsWith('missing.png')) throw new TypeError('Network error')
+        const type = url.endsWith('.css') ? 'text/css' : 'image/png'
+        return { url, blob: new Blob([url.endsWith('.mp4') ? 'x'.repeat(5000) : 'x'], { type }) }
+    }
+
+    const { html, report } = await freezeDryWithReport(doc, {
+        docUrl,
+        fetchResource,
+        fetchPolicies: { video: { maxSize: 1000 } },
+    })
+
+    expect(html).toContain('<img src="data:image/png;')
+    const outcomes = Object.fromEntries(report.subresources.map(
+        ({ url, outcome }) => [url, outcome],
+    ))
+    expect(outcomes).toEqual({
+        'https://example.com/style.css': 'inlined',
+        'https://example.com/ok.png': 'inlined',
+        'https://example.com/missing.png': 'failed',
+        'https://example.com/huge.mp4': 'skipped',
+    })
+    const failed = report.subresources.find(({ outcome }) => outcome === 'failed')
+    expect(failed.subresourceType).toBe('image')
+    expect(failed.error).toBeInstanceOf(TypeError)
+    const inlined = report.subresources.find(({ outcome }) => outcome === 'inlined')
+    expect(inlined.size).toBeGreaterThan('data:'.length)
+})
+
+test('should report subresources that were not fetched in time', async () => {
+    const doc = await getExampleDoc()
+    fetch.mockImplementation(url => new Promise(resolve => {}))
+
+    const resultP = freezeDryWithReport(doc, { timeout: 2000 })
+    jest.runAllTimers()
+    const { report } = await resultP
+
+    const outcomes = new Set(report.subresources.map(({ outcome }) => outcome))
+    expect(outcomes).toContain('timed-out')
+    expect(outcomes).not.toContain('failed')
+})
+
+test('should not crawl frames and stylesheets that would contain themselves', async () => {
+    const docUrl = 'https://example.com/page.html'
+    const page = `<html><head><link rel="stylesheet" href="a.css"></head><body>
+        <iframe src="page.html"></iframe>
+    </body></html>`
+    const files: { [name: string]: [string, string] } = {
+        'page.html': [page, 'text/html'],
+        'a.css': ['@import "b.css";', 'text/css'],
+        'b.css': ['@import "a.css"; @import "b.css";', 'text/css'],
+    }
+    const fetchResource = jest.fn(async (url: string) => {
+        const [content, type] = files[url.split('/').pop()]
+        return { url, blob: new Blob([content], { type }) }
+    })
+    const doc = new DOMParser().parseFromString(page, 'text/html')
+
+    const { report } = await freezeDryWithReport(doc, { docUrl, fetchResource })
+
+    // Like browsers, we refuse to load a frame with the same URL as one of its ancestors.
+    expect(report.subresources.map(({ url, outcome }) => [url, outcome])).toEqual([
+        ['https://example.com/a.css', 'inlined'],
+        ['https://example.com/page.html', 'skipped'],
+        ['https://example.com/b.css', 'inlined'],
+        ['https://example.com/a.css', 'skipped'],
+        ['https://example.com/b.css', 'skipped'],
+    ])
+    expect(fetchResource).toHaveBeenCalledTimes(2)
+})
+
+test('should respect the maximum frame and import depths', async () => {
+    const docUrl = 'https://example.com/page.html'
+    const files: { [name: string]: [string, string] } = {
+        'frame1.html': ['<iframe src="frame2.html"></iframe><embed src="embed.html">', 'text/html'],
+        'frame2.html': ['<p>Too deep</p>', 'text/html'],
+        'embed.html': ['<p>Too deep as well</p>', 'text/html'],
+        'a.css': ['@import "b.css";', 'text/css'],
+        'b.css': ['@import "c.css";', 'text/css'],
+        'c.css': ['body { color: red; }', 'text/css'],
+    }
+    const fetchResource = jest.fn(async (url: string) => {
+        const [content, type] = files[url.split('/').pop()]
+        return { url, blob: new Blob([content], { type }) }
+    })
+    const doc = new DOMParser().parseFromString(`<html><head>
+        <link rel="stylesheet" href="a.css">
+    </head><body>
+        <iframe src="frame1.html"></iframe>
+    </body></html>`, 'text/html')
+
+    const { report } = await freezeDryWithReport(doc, {
+        docUrl,
+        fetchResource,
+        maxFrameDepth: 1,
+        maxImportDepth: 1,
+    })
+
+    const outcomes = Object.fromEntries(report.subresources.map(
+        ({ url, outcome }) => [url.split('/').pop(), outcome],
+    ))
+    expect(outcomes).toEqual({
+        'a.css': 'inlined',
+        'b.css': 'inlined',
+        'c.css': 'skipped',
+        'frame1.html': 'inlined',
+        'frame2.html': 'skipped',
+        'embed.html': 'skipped',
+    })
+    const fetchedUrls = fetchResource.mock.calls.map(([url]) => url.split('/').pop())
+    expect(fetchedUrls).not.toContain('c.css')
+    expect(fetchedUrls).not.toContain('frame2.html')
+    expect(fetchedUrls).not.toContain('embed.html')
+})
+
+test('should not crawl blocked subresources', async () => {
+    const docUrl = 'https://example.com/page.html'
+    const fetchResource = jest.fn(async (url: string) => (
+        { url, blob: new Blob(['<p>Hi</p>'], { type: 'text/html' }) }
+    ))
+    const doc = new DOMParser().parseFromString(`<html><body>
+        <img src="https://tracker.example.net/pixel.gif">
+        <img src="https://example.com/pixel.gif?id=1">
+        <iframe src="https://cdn.ads.example.org/banner.html"></iframe>
+        <iframe src="https://example.com/frame.html"></iframe>
+        <video src="https://example.com/video.mp4"></video>
+    </body></html>`, 'text/html')
+    const blockSubresource = jest.fn(({ subresourceType }) => subresourceType === 'video')
+
+    const { html, report } = await freezeDryWithReport(doc, {
+        docUrl,
+        fetchResource,
+        blockSubresource,
+        blocklist: '# Trackers\n0.0.0.0 tracker.example.net\nads.example.org\n*/pixel.gif?*',
+        removeBlockedFrames: true,
+    })
+
+    expect(report.subresources.map(({ url, outcome }) => [url, outcome])).toEqual([
+        ['https://cdn.ads.example.org/banner.html', 'skipped'],
+        ['https://example.com/frame.html', 'inlined'],
+        ['https://tracker.example.net/pixel.gif', 'skipped'],
+        ['https://example.com/pixel.gif?id=1', 'skipped'],
+        ['https://example.com/video.mp4', 'skipped'],
+    ])
+    expect(fetchResource).toHaveBeenCalledTimes(1)
+    expect(blockSubresource).toHaveBeenCalledWith(expect.objectContaining({
+        url: 'https://example.com/frame.html',
+        subresourceType: 'document',
+    }))
+    expect(html).not.toContain('banner.html"')
+    expect(html).toContain('<img src="about:invalid" '
+        + 'data-original-src="https://tracker.example.net/pixel.gif">')
+    expect(html.match(/<iframe /g)).toHaveLength(1)
+})
+
+test('should keep the snapshot within the maxTotalSize budget', async () => {
+    const doc = await getExampleDoc()
+    const fullSize = (await freezeDry(doc)).length
+
+    for (const fraction of [0.5, 0.7, 0.9]) {
+        const maxTotalSize = Math.round(fullSize * fraction)
+        const { html, report } = await freezeDryWithReport(doc, { maxTotalSize })
+
+        expect(html.length).toBeLessThanOrEqual(maxTotalSize)
+        expect(report.subresources.some(({ outcome }) => outcome === 'skipped')).toBe(true)
+    }
+})
+
+test('should abort pending fetches after given timeout', async () => {
+    const doc = await getExampleDoc()
+
+    // Make fetch never resolve, and note the signals it is given.
+    const signals: AbortSignal[] = []
+    let fetchStarted: () => void
+    const fetchStartedP = new Promise(resolve => { fetchStarted = resolve })
+    const fetchResource = jest.fn((url, init) => {
+        signals.push(init.signal)
+        fetchStarted()
+        return new Promise(resolve => {})
+    })
+
+    const resultP = freezeDry(doc, { timeout: 2000, fetchResource })
+    await fetchStartedP
+    expect(signals.some(signal => signal.aborted)).toBe(false)
+    jest.runAllTimers() // trigger the timeout directly.
+    await resultP
+
+    expect(signals.length).toBeGreaterThan(0)
+    expect(signals.every(signal => signal.aborted)).toBe(true)
+})
+
+test('should abort when the given signal is aborted', async () => {
+    const doc = await getExampleDoc()
+
+    const signals: AbortSignal[] = []
+    let fetchStarted: () => void
+    const fetchStartedP = new Promise(resolve => { fetchStarted = resolve })
+    const fetchResource = jest.fn((url, init) => {
+        signals.push(init.signal)
+        fetchStarted()
+        return new Promise(resolve => {})
+    })
+
+    const abortController = new doc.defaultView.AbortController()
+    const resultP = freezeDry(doc, { signal: abortController.signal, fetchResource })
+    await fetchStartedP
+    abortController.abort()
+
+    await expect(resultP).rejects.toMatchObject({ name: 'AbortError' })
+    expect(signals.every(signal => signal.aborted)).toBe(true)
+})
+
+test('should not start if the given signal is already aborted', async () => {
+    const doc = await getExampleDoc()
+    const abortController = new doc.defaultView.AbortController()
+    abortController.abort()
+    const fetchResource = jest.fn(mockFetch)
+
+    await expect(freezeDry(doc, { signal: abortController.signal, fetchResource }))
+        .rejects.toMatchObject({ name: 'AbortError' })
+    expect(fetchResource).not.toHaveBeenCalled()
+})
+
+test('should stop its timer and stop listening to the given signal when done', async () => {
+    const doc = await getExampleDoc()
+    const abortController = new doc.defaultView.AbortController()
+    const signal = abortController.signal
+    jest.spyOn(signal, 'addEventListener')
+    jest.spyOn(signal, 'removeEventListener')
+    const timerCount = jest.getTimerCount()
+
+    await freezeDry(doc, { signal, timeout: 2000 })
+
+    expect(jest.getTimerCount()).toBe(timerCount)
+    const listenersOf = (method: Function) => (method as jest.Mock).mock.calls.map(call => call[1])
+    const added = listenersOf(signal.addEventListener)
+    const removed = listenersOf(signal.removeEventListener)
+    expect(added.length).toBeGreaterThan(0)
+    expect(removed).toEqual(expect.arrayContaining(added))
+})
+
+test('should not mistake cancellation by the given signal for a timeout', async () => {
+    const doc = await getExampleDoc()
+    fetch.mockImplementation(url => new Promise(resolve => {}))
+    const abortController = new doc.defaultView.AbortController()
+    const resource = await captureDom(doc, {})
+    const linkErrors = new Map()
+
+    const crawlP = crawlSubresourcesOfDom(resource, { signal: abortController.signal, linkErrors })
+    abortController.abort()
+    await crawlP
+
+    expect(linkErrors.size).toBeGreaterThan(0)
+    for (const error of linkErrors.values()) {
+        expect(error).toBeInstanceOf(SubresourceAbortedError)
+    }
+})
+
 test('should use the given docUrl', async () => {
     const docUrl = 'https://example.com/main/page.html'
     const docHtml = await (await fetch(docUrl)).text()
@@ -124,6 +591,312 @@ test('should use the custom fetchResource function', async () => {
     expect(fetch).not.toHaveBeenCalled()
 })
 
+test('should limit the number of concurrent fetches', async () => {
+    const now = new Date(1545671350764)
+    const doc = await getExampleDoc()
+    const expectedResult = await freezeDry(doc, { now })
+
+    let pending = 0
+    let maxPending = 0
+    const fetchResource = jest.fn(async (url: string) => {
+        pending++
+        maxPending = Math.max(maxPending, pending)
+        try {
+            return await mockFetch(url)
+        } finally {
+            pending--
+        }
+    })
+
+    const result = await freezeDry(doc, { now, fetchResource, maxConcurrency: 1 })
+
+    expect(result).toEqual(expectedResult)
+    expect(fetchResource.mock.calls.length).toBeGreaterThan(1)
+    expect(maxPending).toBe(1)
+})
+
+test('should report its progress', async () => {
+    const doc = await getExampleDoc()
+    const events = []
+
+    await freezeDry(doc, { fetchResource: mockFetch, onProgress: event => events.push(event) })
+
+    const phases = events.filter(event => event.type === 'phase').map(event => event.phase)
+    expect(phases).toEqual(['capture', 'crawl', 'dry', 'compile'])
+    const url = 'https://example.com/imgs/background.png'
+    expect(events.filter(event => event.url === url).map(event => event.type))
+        .toEqual(['discovered', 'started', 'finished'])
+    const discovered = events.filter(event => event.type === 'discovered').length
+    const done = events.filter(event => ['finished', 'failed'].includes(event.type)).length
+    expect(done).toBe(discovered)
+})
+
+test('should fetch each distinct subresource only once', async () => {
+    const doc = await getExampleDoc()
+    const fetchResource = jest.fn(mockFetch)
+
+    await freezeDry(doc, { fetchResource })
+
+    const fetchedUrls = fetchResource.mock.calls.map(([url]) => url)
+    expect(fetchedUrls).toContain('https://example.com/imgs/background.png')
+    expect(new Set(fetchedUrls).size).toBe(fetchedUrls.length)
+})
+
+test('should fetch only one candidate of responsive images if requested', async () => {
+    const docUrl = 'https://example.com/page.html'
+    const doc = new DOMParser().parseFromString(`<html><body>
+        <picture>
+            <source srcset="imgs/32x32.png 2x">
+            <img src="imgs/8x8.png" srcset="imgs/16x16.png 1.5x">
+        </picture>
+    </body></html>`, 'text/html')
+    const fetchResource = jest.fn(async (url: string) => (
+        { url, blob: new Blob(['fake png'], { type: 'image/png' }) }
+    ))
+
+    await freezeDry(doc, { docUrl, fetchResource, responsiveImages: 'largest' })
+
+    const fetchedUrls = fetchResource.mock.calls.map(([url]) => url)
+    expect(fetchedUrls).toEqual(['https://example.com/imgs/32x32.png'])
+})
+
+test('should share stylesheets linked to multiple times, without creating cycles', async () => {
+    const docUrl = 'https://example.com/page.html'
+    const doc = new DOMParser().parseFromString(`<html><head>
+        <link rel="stylesheet" href="a.css">
+        <link rel="stylesheet" href="b.css">
+    </head></html>`, 'text/html')
+
+    const stylesheets = {
+        'https://example.com/a.css': '@import "b.css"; @import "shared.css";',
+        'https://example.com/b.css': '@import "a.css"; @import "shared.css";',
+        'https://example.com/shared.css': 'body { color: green; }',
+    }
+    const fetchResource = jest.fn(async (url: string) => ({
+        url,
+        blob: new Blob([stylesheets[url]], { type: 'text/css' }),
+    }))
+
+    const result = await freezeDry(doc, { docUrl, fetchResource })
+
+    expect(fetchResource).toHaveBeenCalledTimes(3)
+    const dryDoc = new DOMParser().parseFromString(result, 'text/html')
+    const links = Array.from(dryDoc.querySelectorAll('link[rel=stylesheet]'))
+    expect(links.map(link => link.getAttribute('href')))
+        .toEqual([expect.stringMatching(/^data:text\/css/), expect.stringMatching(/^data:text\/css/)])
+})
+
+test('should decode subresources using their declared character encoding', async () => {
+    const docUrl = 'https://example.com/page.html'
+    const doc = new DOMParser().parseFromString(`<html><head>
+        <link rel="stylesheet" href="style.css">
+    </head><body>
+        <iframe src="frame.html"></iframe>
+    </body></html>`, 'text/html')
+
+    const bytes = (...parts: Array<string | number[]>) => parts.map(
+        part => typeof part === 'string' ? part : Uint8Array.from(part)
+    )
+    const contents = {
+        // ‘café’ in windows-1252.
+        'https://example.com/style.css': new Blob(bytes(
+            '@charset "windows-1252"; p::before { content: "caf', [0xE9], '" }',
+        ), { type: 'text/css' }),
+        // ‘日本’ in Shift_JIS.
+        'https://example.com/frame.html': new Blob(bytes(
+            '<html><head><meta charset="shift_jis"></head><body>', [0x93, 0xFA, 0x96, 0x7B],
+        ), { type: 'text/html' }),
+    }
+    const fetchResource = async (url: string) => ({ url, blob: contents[url] })
+
+    const result = await freezeDry(doc, { docUrl, fetchResource })
+
+    const dryDoc = new DOMParser().parseFromString(result, 'text/html')
+    const decodeDataUrl = (dataUrl: string) => {
+        expect(dataUrl).toMatch(/;charset=utf-8;base64,/)
+        return Buffer.from(dataUrl.split(',')[1], 'base64').toString('utf-8')
+    }
+    expect(decodeDataUrl(dryDoc.querySelector('link[rel=stylesheet]').getAttribute('href')))
+        .toContain('content: "café"')
+    expect(decodeDataUrl(dryDoc.querySelector('iframe').getAttribute('src')))
+        .toContain('<body>日本</body>')
+})
+
+test('should let frames inherit the character encoding of a same-origin parent only', async () => {
+    const docUrl = 'https://example.com/page.html'
+    const doc = new DOMParser().parseFromString(`<html><body>
+        <iframe src="frame.html"></iframe>
+    </body></html>`, 'text/html')
+
+    const bytes = (...parts: Array<string | number[]>) => parts.map(
+        part => typeof part === 'string' ? part : Uint8Array.from(part)
+    )
+    // ‘café’ in windows-1252, without declaring an encoding.
+    const undeclared = () => new Blob(bytes('<html><body>caf', [0xE9]), { type: 'text/html' })
+    const contents = {
+        'https://example.com/frame.html': new Blob([`<html><head>
+            <meta charset="windows-1252">
+        </head><body>
+            <iframe src="inner.html"></iframe>
+            <iframe src="https://other.example/inner.html"></iframe>
+        </body></html>`], { type: 'text/html' }),
+        'https://example.com/inner.html': undeclared(),
+        'https://other.example/inner.html': undeclared(),
+    }
+    const fetchResource = async (url: string) => ({ url, blob: contents[url] })
+
+    const result = await freezeDry(doc, { docUrl, fetchResource })
+
+    const decodeFrame = (frame: Element) => new DOMParser().parseFromString(
+        Buffer.from(frame.getAttribute('src').split(',')[1], 'base64').toString('utf-8'),
+        'text/html',
+    )
+    const frameDoc = decodeFrame(new DOMParser().parseFromString(result, 'text/html')
+        .querySelector('iframe'))
+    const [sameOriginFrame, crossOriginFrame] = Array.from(frameDoc.querySelectorAll('iframe'))
+    expect(decodeFrame(sameOriginFrame).body.textContent).toBe('café')
+    expect(decodeFrame(crossOriginFrame).body.textContent).toBe('caf\uFFFD')
+})
+
+test('should crawl the subresources of SVG images', async () => {
+    const docUrl = 'https://example.com/page.html'
+    const doc = new DOMParser().parseFromString(`<html><body>
+        <img src="icon.svg">
+        <svg><image xlink:href="imgs/8x8.png" width="8" height="8"/></svg>
+    </body></html>`, 'text/html')
+
+    const svg = `<?xml version="1.0" encoding="utf-8"?>
+        <svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"
+            onload="alert('spam')">
+            <style>text { background: url("imgs/16x16.png") }</style>
+            <image href="imgs/8x8.png"/>
+            <image xlink:href="imgs/32x32.png"/>
+            <image href="icon.svg"/>
+            <script>alert('spam')</script>
+        </svg>`
+    const fetchResource = async (url: string) => url.endsWith('.svg')
+        ? { url, blob: new Blob([svg], { type: 'image/svg+xml' }) }
+        : { url, blob: new Blob(['fake png'], { type: 'image/png' }) }
+
+    const result = await freezeDry(doc, { docUrl, fetchResource })
+
+    const dryDoc = new DOMParser().parseFromString(result, 'text/html')
+    expect(dryDoc.querySelector('svg image').getAttribute('xlink:href'))
+        .toMatch(/^data:image\/png;/)
+
+    const svgDataUrl = dryDoc.querySelector('img').getAttribute('src')
+    expect(svgDataUrl).toMatch(/^data:image\/svg\+xml;charset=utf-8;base64,/)
+    const svgString = Buffer.from(svgDataUrl.split(',')[1], 'base64').toString('utf-8')
+    const dryIcon = new DOMParser().parseFromString(svgString, 'image/svg+xml')
+    const images = Array.from(dryIcon.querySelectorAll('image'))
+    expect(images[0].getAttribute('href')).toMatch(/^data:image\/png;/)
+    expect(images[1].getAttribute('xlink:href')).toMatch(/^data:image\/png;/)
+    // The SVG including itself is not crawled endlessly (browsers would not show it anyway).
+    expect(images[2].getAttribute('href')).toBe('https://example.com/icon.svg')
+    expect(dryIcon.querySelector('style').textContent).toMatch(/url\("data:image\/png;/)
+    expect(dryIcon.querySelector('script')).toBeNull()
+    expect(dryIcon.documentElement.hasAttribute('onload')).toBe(false)
+})
+
+test('should crawl audio, track, embed and object subresources', async () => {
+    const docUrl = 'https://example.com/page.html'
+    const doc = new DOMParser().parseFromString(`<html><body>
+        <audio src="sound.mp3"></audio>
+        <video><track src="captions.vtt"></video>
+        <embed src="drawing.svg">
+        <object data="widget.html"></object>
+        <object data="manual.pdf"></object>
+    </body></html>`, 'text/html')
+
+    const files: { [name: string]: [string, string] } = {
+        'sound.mp3': ['fake mp3', 'audio/mpeg'],
+        'captions.vtt': ['WEBVTT', 'text/vtt'],
+        'drawing.svg': ['<svg xmlns="http://www.w3.org/2000/svg"><image href="8x8.png"/></svg>',
+            'image/svg+xml'],
+        'widget.html': ['<html><body><img src="8x8.png"><script>alert(1)</script></body></html>',
+            'text/html'],
+        'manual.pdf': ['fake pdf', 'application/pdf'],
+        '8x8.png': ['fake png', 'image/png'],
+    }
+    const fetchResource = async (url: string) => {
+        const [content, type] = files[url.split('/').pop()]
+        return { url, blob: new Blob([content], { type }) }
+    }
+
+    const result = await freezeDry(doc, { docUrl, fetchResource })
+
+    const dryDoc = new DOMParser().parseFromString(result, 'text/html')
+    const decode = (dataUrl: string) => Buffer.from(dataUrl.split(',')[1], 'base64').toString()
+    expect(dryDoc.querySelector('audio').getAttribute('src')).toMatch(/^data:audio\/mpeg;/)
+    expect(dryDoc.querySelector('track').getAttribute('src')).toMatch(/^data:text\/vtt;/)
+    const embedSrc = dryDoc.querySelector('embed').getAttribute('src')
+    expect(embedSrc).toMatch(/^data:image\/svg\+xml;/)
+    expect(decode(embedSrc)).toMatch(/href="data:image\/png;/)
+    const [widget, manual] = Array.from(dryDoc.querySelectorAll('object'))
+    const widgetData = widget.getAttribute('data')
+    expect(widgetData).toMatch(/^data:text\/html;/)
+    expect(decode(widgetData)).toMatch(/<img src="data:image\/png;/)
+    expect(decode(widgetData)).not.toMatch(/<script/)
+    expect(manual.getAttribute('data')).toMatch(/^data:application\/pdf;/)
+    expect(dryDoc.querySelector('meta[http-equiv="Content-Security-Policy"]')
+        .getAttribute('content')).toContain('object-src data:')
+})
+
+test('should crawl preloaded resources, touch icons and web app manifests', async () => {
+    const docUrl = 'https://example.com/page.html'
+    const doc = new DOMParser().parseFromString(`<html><head>
+        <link rel="preload" as="font" href="font.woff2" crossorigin>
+        <link rel="preload" as="script" href="app.js">
+        <link rel="apple-touch-icon" href="touch-icon.png">
+        <link rel="manifest" href="app.webmanifest">
+    </head><body></body></html>`, 'text/html')
+
+    const manifest = {
+        name: 'Example',
+        start_url: './?standalone',
+        icons: [{ src: 'icons/192.png', sizes: '192x192' }],
+    }
+    const files: { [name: string]: [string, string] } = {
+        'font.woff2': ['wOF2 fake font', 'font/woff2'],
+        'touch-icon.png': ['fake png', 'image/png'],
+        '192.png': ['fake png', 'image/png'],
+        'app.webmanifest': [JSON.stringify(manifest), 'application/manifest+json'],
+    }
+    const fetchResource = jest.fn(async (url: string) => {
+        const [content, type] = files[url.split('/').pop()]
+        return { url, blob: new Blob([content], { type }) }
+    })
+
+    const result = await freezeDry(doc, { docUrl, fetchResource })
+
+    const dryDoc = new DOMParser().parseFromString(result, 'text/html')
+    const hrefOf = (rel: string) => dryDoc.querySelector(`link[rel=${rel}]`).getAttribute('href')
+    expect(hrefOf('preload')).toMatch(/^data:font\/woff2;/)
+    expect(dryDoc.querySelector('link[as=script]').getAttribute('href'))
+        .toBe('https://example.com/app.js')
+    expect(hrefOf('apple-touch-icon')).toMatch(/^data:image\/png;/)
+    const manifestHref = hrefOf('manifest')
+    expect(manifestHref).toMatch(/^data:application\/manifest\+json;base64,/)
+    const dryManifest = JSON.parse(Buffer.from(manifestHref.split(',')[1], 'base64').toString())
+    expect(dryManifest.icons[0].src).toMatch(/^data:image\/png;/)
+    expect(dryManifest.start_url).toBe('https://example.com/?standalone')
+    expect(fetchResource.mock.calls.map(([url]) => url)).not.toContain('https://example.com/app.js')
+    expect(dryDoc.querySelector('meta[http-equiv="Content-Security-Policy"]')
+        .getAttribute('content')).toContain('manifest-src data:')
+
+    // The manifest, with its icons, survives serialization.
+    const config = { docUrl, fetchResource, glob: window }
+    const resource = await captureDom(doc, config)
+    await crawlSubresourcesOfDom(resource, config)
+    const rehydratedResource = rehydrateDomResource(
+        JSON.parse(JSON.stringify(await serializeDomResource(resource, config))),
+        config,
+    )
+    const manifestLink = rehydratedResource.links.find(link => link.subresourceType === 'manifest')
+    expect(manifestLink.resource.url).toBe('https://example.com/app.webmanifest')
+    expect(manifestLink.resource.links[0].resource.url).toBe('https://example.com/icons/192.png')
+})
+
 test('should work if the custom fetchResource function returns a simple object', async () => {
     const now = new Date(1545671350764)
     const doc = await getExampleDoc()
@@ -143,6 +916,27 @@ test('should work if the custom fetchResource function returns a simple object',
     expect(result).toEqual(expectedResult)
 })
 
+test('should give untyped subresources their sniffed MIME type', async () => {
+    const now = new Date(1545671350764)
+    const doc = await getExampleDoc()
+    const expectedResult = await freezeDry(doc, { now })
+
+    // A fetch-like function that leaves the type of each blob empty.
+    async function fetchResource(...args) {
+        const response = await fetch(...args)
+        const blob = await response.blob()
+        return {
+            url: response.url,
+            blob: new Blob([blob]),
+        }
+    }
+
+    const result = await freezeDry(doc, { now, fetchResource })
+
+    expect(result).toEqual(expectedResult)
+    expect(result).not.toContain('data:;base64')
+})
+
 test('should use interfaces of a custom global object', async () => {
     const now = new Date(1545671350764)
     const doc = await getExampleDoc()